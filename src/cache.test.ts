@@ -0,0 +1,65 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DiskCache } from './cache.js';
+
+describe('DiskCache', () => {
+  let directory: string;
+  let cache: DiskCache;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'deepsrt-cache-'));
+    cache = new DiskCache(directory);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('stores and reads values per namespace', async () => {
+    await cache.set('summary', 'dQw4w9WgXcQ_zh-tw_bullet', { summary: 'Hello' });
+
+    expect(await cache.get('summary', 'dQw4w9WgXcQ_zh-tw_bullet')).toEqual({ summary: 'Hello' });
+    expect(await cache.get('videoInfo', 'dQw4w9WgXcQ_zh-tw_bullet')).toBeUndefined();
+  });
+
+  test('keeps keys apart that differ only in punctuation or script', async () => {
+    const keys = ['c++', 'c__', '日本語', '한국어', 'https://www.youtube.com/@a?b', 'https://www.youtube.com/@a&b'];
+    await Promise.all(keys.map(key => cache.set('search', key, key)));
+
+    for (const key of keys) {
+      expect(await cache.get('search', key)).toBe(key);
+    }
+  });
+
+  test('ignores expired entries', async () => {
+    await cache.set('captions', 'key', '<timedtext/>', -1);
+    expect(await cache.get('captions', 'key')).toBeUndefined();
+  });
+
+  test('wrap loads once and refresh reloads', async () => {
+    let calls = 0;
+    const load = async () => ++calls;
+
+    expect(await cache.wrap('videoInfo', 'abc', load)).toBe(1);
+    expect(await cache.wrap('videoInfo', 'abc', load)).toBe(1);
+    expect(await cache.wrap('videoInfo', 'abc', load, true)).toBe(2);
+    expect(await cache.wrap('videoInfo', 'abc', load)).toBe(2);
+  });
+
+  test('reports stats and clears everything', async () => {
+    await cache.set('videoInfo', 'a', { title: 'A' });
+    await cache.set('summary', 'b', 'B');
+    await cache.set('summary', 'c', 'C', -1);
+
+    const stats = await cache.stats();
+    expect(stats.entries).toBe(3);
+    expect(stats.expired).toBe(1);
+    expect(stats.namespaces.summary.entries).toBe(2);
+    expect(stats.bytes).toBeGreaterThan(0);
+
+    await cache.clear();
+    expect((await cache.stats()).entries).toBe(0);
+  });
+});
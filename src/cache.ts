@@ -0,0 +1,122 @@
+/**
+ * Persistent disk cache for InnerTube responses, caption XML and summaries
+ * Entries are JSON files under `<directory>/<namespace>/<sha256 of key>.json`
+ * holding the key, the value and its expiry time. Cache failures never fail
+ * a request.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import { config } from './config.js';
+
+export type CacheNamespace = keyof typeof config.cache.ttl;
+
+export interface CacheStats {
+  directory: string;
+  entries: number;
+  expired: number;
+  bytes: number;
+  namespaces: Record<string, { entries: number; bytes: number }>;
+}
+
+interface CacheEntry<T> {
+  /** The readable key, for debugging and to guard against hash collisions */
+  key: string;
+  expiresAt: number;
+  value: T;
+}
+
+export function defaultCacheDirectory(): string {
+  return process.env.DEEPSRT_CACHE_DIR || join(homedir(), '.cache', config.cache.directoryName);
+}
+
+export class DiskCache {
+  readonly directory: string;
+
+  constructor(directory: string = defaultCacheDirectory()) {
+    this.directory = directory;
+  }
+
+  async get<T>(namespace: CacheNamespace, key: string): Promise<T | undefined> {
+    try {
+      const entry: CacheEntry<T> = JSON.parse(await readFile(this.entryPath(namespace, key), 'utf8'));
+      return entry.key === key && entry.expiresAt > Date.now() ? entry.value : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T>(namespace: CacheNamespace, key: string, value: T, ttlSeconds: number = config.cache.ttl[namespace]): Promise<void> {
+    try {
+      const entry: CacheEntry<T> = { key, expiresAt: Date.now() + ttlSeconds * 1000, value };
+      await mkdir(join(this.directory, namespace), { recursive: true });
+      await writeFile(this.entryPath(namespace, key), JSON.stringify(entry));
+    } catch {
+      // A read-only or full disk only costs us the cache
+    }
+  }
+
+  /**
+   * Return the cached value, or compute and store it. `refresh` skips the
+   * lookup but still stores the fresh value.
+   */
+  async wrap<T>(namespace: CacheNamespace, key: string, load: () => Promise<T>, refresh: boolean = false): Promise<T> {
+    if (!refresh) {
+      const cached = await this.get<T>(namespace, key);
+      if (cached !== undefined) {
+        return cached;
+      }
+    }
+
+    const value = await load();
+    await this.set(namespace, key, value);
+    return value;
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.directory, { recursive: true, force: true });
+  }
+
+  async stats(): Promise<CacheStats> {
+    const result: CacheStats = { directory: this.directory, entries: 0, expired: 0, bytes: 0, namespaces: {} };
+    const now = Date.now();
+
+    for (const namespace of await this.listDirectory(this.directory)) {
+      const namespaceStats = { entries: 0, bytes: 0 };
+
+      for (const file of await this.listDirectory(join(this.directory, namespace))) {
+        const path = join(this.directory, namespace, file);
+        try {
+          const [info, content] = await Promise.all([stat(path), readFile(path, 'utf8')]);
+          namespaceStats.entries++;
+          namespaceStats.bytes += info.size;
+          if ((JSON.parse(content) as CacheEntry<unknown>).expiresAt <= now) {
+            result.expired++;
+          }
+        } catch {
+          // Ignore entries removed or corrupted while scanning
+        }
+      }
+
+      result.namespaces[namespace] = namespaceStats;
+      result.entries += namespaceStats.entries;
+      result.bytes += namespaceStats.bytes;
+    }
+
+    return result;
+  }
+
+  private entryPath(namespace: CacheNamespace, key: string): string {
+    return join(this.directory, namespace, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private async listDirectory(path: string): Promise<string[]> {
+    try {
+      return await readdir(path);
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, test, expect } from 'bun:test';
+import { groupSegmentsByChapter, parseDescriptionChapters, toChapters } from './chapters.js';
+import type { TranscriptSegment } from './types.js';
+
+const description = `In this talk we cover everything.
+
+Chapters:
+00:00 Intro
+• 1:30 - Setting up
+(4:05) Live demo
+Q&A session 1:02:03
+
+Links: https://example.com`;
+
+describe('Chapters', () => {
+  describe('parseDescriptionChapters', () => {
+    test('reads leading, bracketed, bulleted and trailing timestamps', () => {
+      expect(parseDescriptionChapters(description)).toEqual([
+        { title: 'Intro', startSeconds: 0 },
+        { title: 'Setting up', startSeconds: 90 },
+        { title: 'Live demo', startSeconds: 245 },
+        { title: 'Q&A session', startSeconds: 3723 }
+      ]);
+    });
+
+    test('follows YouTube rules: starts at 0:00, at least three, ascending', () => {
+      expect(parseDescriptionChapters('0:00 Intro\n1:00 Outro')).toEqual([]);
+      expect(parseDescriptionChapters('0:30 Intro\n1:00 Middle\n2:00 Outro')).toEqual([]);
+      expect(parseDescriptionChapters('0:00 Intro\n2:00 Middle\n1:00 Outro')).toEqual([]);
+      expect(parseDescriptionChapters('No timestamps here')).toEqual([]);
+    });
+  });
+
+  test('toChapters ends each chapter at the next one and the last at the video end', () => {
+    expect(toChapters([{ title: 'A', startSeconds: 0 }, { title: 'B', startSeconds: 60 }], 150)).toEqual([
+      { title: 'A', startSeconds: 0, endSeconds: 60 },
+      { title: 'B', startSeconds: 60, endSeconds: 150 }
+    ]);
+  });
+
+  test('groupSegmentsByChapter assigns segments by start time and drops empty chapters', () => {
+    const segment = (startMs: number): TranscriptSegment => ({ timestamp: '', startMs, durationMs: 1000, text: `at ${startMs}` });
+    const chapters = toChapters([
+      { title: 'A', startSeconds: 0 },
+      { title: 'B', startSeconds: 60 },
+      { title: 'C', startSeconds: 120 }
+    ], 180);
+
+    const groups = groupSegmentsByChapter([segment(59000), segment(60000), segment(150000)], chapters);
+
+    expect(groups.map(group => [group.chapter.title, group.segments.map(s => s.startMs)])).toEqual([
+      ['A', [59000]],
+      ['B', [60000]],
+      ['C', [150000]]
+    ]);
+    expect(groupSegmentsByChapter([segment(130000)], chapters).map(group => group.chapter.title)).toEqual(['C']);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Video chapters
+ * Chapters come from InnerTube's chapter markers when the video has them,
+ * otherwise from timestamp lines in the description, using YouTube's own
+ * rules: the first chapter starts at 0:00 and there are at least three, in
+ * ascending order.
+ */
+
+import type { Chapter, TranscriptSegment } from './types.js';
+import { parseTimeToSeconds } from './utils.js';
+
+export interface ChapterMarker {
+  title: string;
+  startSeconds: number;
+}
+
+const MIN_DESCRIPTION_CHAPTERS = 3;
+
+const TIMESTAMP = String.raw`(?:\d{1,2}:)?\d{1,2}:\d{2}`;
+const LEADING_TIMESTAMP = new RegExp(String.raw`^[\[(]?(${TIMESTAMP})[\])]?\s*[-–—:|.]?\s*(.+)$`);
+const TRAILING_TIMESTAMP = new RegExp(String.raw`^(.+?)\s*[-–—:|]?\s*[\[(]?(${TIMESTAMP})[\])]?$`);
+
+/**
+ * Chapter markers from description lines such as `00:00 Intro`,
+ * `1:02:03 - Q&A`, `(4:05) Demo` or `Wrap-up 12:30`
+ */
+export function parseDescriptionChapters(description: string): ChapterMarker[] {
+  const markers: ChapterMarker[] = [];
+
+  for (const rawLine of description.split('\n')) {
+    const line = rawLine.trim().replace(/^[•*▶►·-]\s*/, '');
+    const leading = line.match(LEADING_TIMESTAMP);
+    const trailing = leading ? null : line.match(TRAILING_TIMESTAMP);
+    const [time, title] = leading ? [leading[1], leading[2]] : trailing ? [trailing[2], trailing[1]] : [];
+    if (!time || !title?.trim()) continue;
+
+    const startSeconds = parseTimeToSeconds(time);
+    if (startSeconds !== null) {
+      markers.push({ title: title.trim(), startSeconds });
+    }
+  }
+
+  const ascending = markers.every((marker, index) => index === 0 || marker.startSeconds > markers[index - 1].startSeconds);
+  if (markers.length < MIN_DESCRIPTION_CHAPTERS || markers[0].startSeconds !== 0 || !ascending) {
+    return [];
+  }
+
+  return markers;
+}
+
+/**
+ * Give each marker an end time: the next chapter's start, or the end of the
+ * video for the last one
+ */
+export function toChapters(markers: ChapterMarker[], lengthSeconds: number): Chapter[] {
+  return markers.map((marker, index) => ({
+    title: marker.title,
+    startSeconds: marker.startSeconds,
+    endSeconds: markers[index + 1]?.startSeconds ?? Math.max(lengthSeconds, marker.startSeconds),
+  }));
+}
+
+/**
+ * Assign each segment to the chapter it starts in. Chapters without
+ * segments (e.g. outside a transcript page) are left out.
+ */
+export function groupSegmentsByChapter(
+  segments: TranscriptSegment[],
+  chapters: Chapter[]
+): Array<{ chapter: Chapter; segments: TranscriptSegment[] }> {
+  const groups = chapters.map(chapter => ({ chapter, segments: [] as TranscriptSegment[] }));
+
+  for (const segment of segments) {
+    const startSeconds = segment.startMs / 1000;
+    let index = groups.length - 1;
+    while (index > 0 && startSeconds < groups[index].chapter.startSeconds) {
+      index--;
+    }
+    groups[index]?.segments.push(segment);
+  }
+
+  return groups.filter(group => group.segments.length > 0);
+}
@@ -6,369 +6,396 @@
  * Usage:
  *   deepsrt get-transcript https://www.youtube.com/watch?v=dQw4w9WgXcQ
  *   deepsrt get-summary dQw4w9WgXcQ --lang zh-tw --mode bullet
+ *   deepsrt get-transcript dQw4w9WgXcQ --format srt > captions.srt
+ *   deepsrt list-captions dQw4w9WgXcQ
+ *   deepsrt get-video-info dQw4w9WgXcQ
+ *   deepsrt get-transcript dQw4w9WgXcQ --group-by chapter
+ *   deepsrt get-transcript dQw4w9WgXcQ --links
+ *   deepsrt get-transcript dQw4w9WgXcQ --segmentation sentence
+ *   deepsrt get-playlist PLxxxx --include summary --concurrency 3
+ *   deepsrt get-channel-videos @handle
+ *   deepsrt search "rust ownership" --duration long --upload-date month
+ *   deepsrt search-transcript dQw4w9WgXcQ "kubernetes" --context 1
+ *   deepsrt cache stats
  */
 
-import axios from 'axios';
+import { DiskCache } from './cache.js';
+import { groupSegmentsByChapter } from './chapters.js';
+import { DeepSRTClient } from './client.js';
+import { exitCodeFor } from './errors.js';
+import { formatChapterRange, formatSegmentLine, formatTranscript, isTranscriptFormat, MarkdownOptions, toCaptionInfo, TRANSCRIPT_FORMATS } from './formatters.js';
+import { isSegmentationMode, SEGMENTATION_MODES } from './segmentation.js';
+import type {
+  PlaylistInclude,
+  PlaylistOptions,
+  SearchDuration,
+  SearchOptions,
+  SearchUploadDate,
+  SummaryMode,
+  TranscriptFormat,
+  TranscriptOptions,
+  TranscriptSearchOptions,
+} from './types.js';
+import { parseTimeToSeconds } from './utils.js';
 import { VERSION } from './version.js';
 
-type SummaryMode = 'narrative' | 'bullet';
-
-interface InnerTubeResponse {
-  videoDetails?: {
-    videoId: string;
-    title: string;
-    lengthSeconds: string;
-    channelId: string;
-    author: string;
-  };
-  captions?: {
-    playerCaptionsTracklistRenderer?: {
-      captionTracks?: Array<{
-        baseUrl: string;
-        name: { simpleText: string };
-        vssId: string;
-        languageCode: string;
-        kind?: string;
-        isTranslatable: boolean;
-      }>;
-    };
-  };
-}
-
 class DeepSRTCLI {
-  private axiosInstance;
+  private client: DeepSRTClient;
+  private refresh: boolean;
 
-  constructor() {
-    this.axiosInstance = axios.create({
-      timeout: 30000,
-    });
+  constructor(options: { cache?: boolean; refresh?: boolean } = {}) {
+    this.client = new DeepSRTClient({ cache: options.cache === false ? false : undefined });
+    this.refresh = options.refresh ?? false;
   }
 
-  // Helper methods (same as MCP server)
-  private extractVideoId(input: string): string | null {
-    // Handle direct video ID
-    if (input.length === 11 && !input.includes('/') && !input.includes('=')) {
-      return input;
-    }
-    
-    // Handle various YouTube URL formats
-    const patterns = [
-      /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/,
-      /youtube\.com\/watch\?.*v=([a-zA-Z0-9_-]{11})/
-    ];
-    
-    for (const pattern of patterns) {
-      const match = input.match(pattern);
-      if (match) {
-        return match[1];
+  // CLI Commands
+  async getTranscript(
+    videoInput: string,
+    lang?: string,
+    format?: TranscriptFormat,
+    { links, ...options }: Pick<TranscriptOptions, 'start' | 'end' | 'groupBy' | 'segmentation'> & MarkdownOptions = {}
+  ) {
+    try {
+      // An explicit format prints the file content only, so it can be redirected
+      if (format) {
+        const result = await this.client.getTranscript(videoInput, { lang, ...options, refresh: this.refresh });
+        console.log(formatTranscript(result, format, { links }));
+        return;
       }
-    }
-    
-    return null;
-  }
 
-  private async getVideoInfo(videoId: string): Promise<InnerTubeResponse> {
-    const response = await this.axiosInstance.post('https://www.youtube.com/youtubei/v1/player', {
-      context: {
-        client: {
-          clientName: 'ANDROID',
-          clientVersion: '19.09.37',
-          androidSdkVersion: 30,
-        }
-      },
-      videoId: videoId
-    });
-    
-    return response.data;
-  }
+      console.log(`🎬 Extracting transcript for: ${videoInput}`);
 
-  private selectBestCaption(captions: any[], preferredLang: string = 'en') {
-    if (!captions || captions.length === 0) {
-      return null;
-    }
-    
-    // First, try to find manual captions in preferred language
-    const manualPreferred = captions.find(c => 
-      c.languageCode === preferredLang && !c.kind
-    );
-    if (manualPreferred) return manualPreferred;
-    
-    // Then try auto-generated in preferred language
-    const autoPreferred = captions.find(c => 
-      c.languageCode === preferredLang && c.kind === 'asr'
-    );
-    if (autoPreferred) return autoPreferred;
-    
-    // Fall back to any manual caption
-    const anyManual = captions.find(c => !c.kind);
-    if (anyManual) return anyManual;
-    
-    // Finally, any caption
-    return captions[0];
-  }
+      const { video, captions, caption, translation, range: slice, chapters, segments } = await this.client.getTranscript(videoInput, { lang, ...options, refresh: this.refresh });
 
-  private parseXMLTranscript(xmlContent: string): Array<{timestamp: string, text: string}> {
-    const result: Array<{timestamp: string, text: string}> = [];
-    
-    // Handle YouTube's timedtext format
-    if (xmlContent.includes('<timedtext')) {
-      // Extract the body content
-      const bodyMatch = xmlContent.match(/<body>(.*?)<\/body>/s);
-      if (!bodyMatch) return result;
-      
-      const bodyContent = bodyMatch[1];
-      
-      // Find all <p> tags with their content
-      const pTagRegex = /<p[^>]*t="(\d+)"[^>]*>(.*?)<\/p>/gs;
-      let match;
-      
-      while ((match = pTagRegex.exec(bodyContent)) !== null) {
-        const startTime = parseInt(match[1]);
-        const pContent = match[2];
-        
-        // Skip empty paragraphs or paragraphs with only whitespace/newlines
-        if (!pContent.trim() || pContent.trim() === '') {
-          continue;
-        }
-        
-        // Extract text from <s> tags within this paragraph
-        const sTagRegex = /<s[^>]*>(.*?)<\/s>/g;
-        const syllables: string[] = [];
-        let sMatch;
-        
-        while ((sMatch = sTagRegex.exec(pContent)) !== null) {
-          let syllable = sMatch[1];
-          
-          // Decode HTML entities
-          syllable = syllable
-            .replace(/&amp;/g, '&')
-            .replace(/&lt;/g, '<')
-            .replace(/&gt;/g, '>')
-            .replace(/&quot;/g, '"')
-            .replace(/&#39;/g, "'")
-            .replace(/&nbsp;/g, ' ');
-          
-          syllables.push(syllable);
-        }
-        
-        // Reconstruct words from syllables
-        if (syllables.length > 0) {
-          const words: string[] = [];
-          let currentWord = '';
-          
-          for (const syllable of syllables) {
-            if (syllable.startsWith(' ')) {
-              // This syllable starts a new word
-              if (currentWord.trim()) {
-                words.push(currentWord.trim());
-              }
-              currentWord = syllable; // Keep the leading space for now
-            } else {
-              // This syllable continues the current word
-              currentWord += syllable;
-            }
-          }
-          
-          // Don't forget the last word
-          if (currentWord.trim()) {
-            words.push(currentWord.trim());
-          }
-          
-          // Join words with single spaces
-          const fullText = words.join(' ').trim();
-          
-          // Skip music notation and empty segments
-          if (fullText && !fullText.match(/^\[.*\]$/) && fullText !== '♪♪♪' && fullText.trim() !== '') {
-            const timestamp = this.formatTimestamp(startTime);
-            result.push({ timestamp, text: fullText });
-          }
+      console.log(`📹 Title: ${video.title}`);
+      console.log(`👤 Author: ${video.author}`);
+      console.log(`⏱️  Duration: ${video.duration}\n`);
+
+      console.log(`📝 Available captions:`);
+      captions.forEach(track => {
+        const type = track.kind === 'asr' ? '(auto)' : '(manual)';
+        console.log(`   • ${track.languageCode}: ${track.name.simpleText} ${type}`);
+      });
+
+      const captionType = caption.kind === 'asr' ? 'auto-generated' : 'manual';
+      if (translation) {
+        console.log(`\n🌐 Using: ${translation.targetLanguageCode} (machine-translated from ${translation.sourceLanguageCode}, ${captionType})\n`);
+      } else {
+        console.log(`\n✅ Using: ${caption.languageCode} (${captionType})\n`);
+      }
+
+      if (slice) {
+        const end = slice.endSeconds !== undefined ? ` to ${slice.endSeconds}s` : '';
+        console.log(`✂️  Range: ${slice.startSeconds}s${end}\n`);
+      }
+
+      // Output transcript
+      const linkVideoId = links ? video.videoId : undefined;
+      console.log(`📝 Transcript with Timestamps:`);
+      console.log(`═══════════════════════════════════════`);
+      if (chapters && chapters.length > 0) {
+        groupSegmentsByChapter(segments, chapters).forEach(({ chapter, segments: chapterSegments }) => {
+          console.log(`\n📖 ${chapter.title} (${formatChapterRange(chapter)})`);
+          chapterSegments.forEach(segment => {
+            console.log(formatSegmentLine(segment, linkVideoId));
+          });
+        });
+      } else {
+        if (chapters) {
+          console.log(`ℹ️  No chapters found for this video`);
         }
+        segments.forEach(segment => {
+          console.log(formatSegmentLine(segment, linkVideoId));
+        });
       }
-    }
-    
-    return result;
-  }
 
-  private formatTimestamp(milliseconds: number): string {
-    const totalSeconds = Math.floor(milliseconds / 1000);
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = totalSeconds % 60;
-    return `[${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}]`;
+      console.log(`\n✅ Extracted ${segments.length} transcript segments`);
+
+    } catch (error) {
+      console.error(`💥 Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(exitCodeFor(error));
+    }
   }
 
-  // CLI Commands
-  async getTranscript(videoInput: string, lang: string = 'en') {
+  async searchTranscript(videoInput: string, query: string, options: TranscriptSearchOptions) {
     try {
-      console.log(`🎬 Extracting transcript for: ${videoInput}`);
-      
-      // Extract video ID from URL or use directly
-      const videoId = this.extractVideoId(videoInput);
-      if (!videoId) {
-        throw new Error('Invalid YouTube URL or video ID');
-      }
+      console.log(`🔎 Searching transcript of ${videoInput} for: ${query}`);
 
-      // Get video info from InnerTube API
-      const videoInfo = await this.getVideoInfo(videoId);
+      const { video, totalHits, hits } = await this.client.searchTranscript(videoInput, query, { ...options, refresh: this.refresh });
 
-      if (!videoInfo.videoDetails) {
-        throw new Error('Could not fetch video details');
-      }
+      console.log(`📹 Title: ${video.title}`);
+      console.log(`⏱️  Duration: ${video.duration}\n`);
+
+      hits.forEach(hit => {
+        console.log(`📍 ${hit.timestamp} ${hit.url}`);
+        hit.before.forEach(segment => console.log(`   ${segment.timestamp} ${segment.text}`));
+        console.log(` ▶ ${hit.timestamp} ${hit.text}`);
+        hit.after.forEach(segment => console.log(`   ${segment.timestamp} ${segment.text}`));
+        console.log('');
+      });
 
-      const { title, author, lengthSeconds } = videoInfo.videoDetails;
-      const duration = `${Math.floor(parseInt(lengthSeconds) / 60)}:${(parseInt(lengthSeconds) % 60).toString().padStart(2, '0')}`;
+      const shown = hits.length < totalHits ? ` (showing ${hits.length})` : '';
+      console.log(totalHits > 0 ? `✅ Found ${totalHits} matches${shown}` : `ℹ️  No matches found`);
 
-      console.log(`📹 Title: ${title}`);
-      console.log(`👤 Author: ${author}`);
-      console.log(`⏱️  Duration: ${duration}\n`);
+    } catch (error) {
+      console.error(`💥 Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(exitCodeFor(error));
+    }
+  }
+
+  async getChapters(videoInput: string) {
+    try {
+      console.log(`📖 Listing chapters for: ${videoInput}`);
 
-      // Extract captions
-      const captionTracks = videoInfo.captions?.playerCaptionsTracklistRenderer?.captionTracks;
-      if (!captionTracks || captionTracks.length === 0) {
-        throw new Error('No captions available for this video');
+      const { video, source, chapters } = await this.client.getChapters(videoInput, { refresh: this.refresh });
+
+      console.log(`📹 Title: ${video.title}`);
+      console.log(`⏱️  Duration: ${video.duration}\n`);
+
+      if (chapters.length === 0) {
+        console.log(`ℹ️  This video has no chapters`);
+        return;
       }
 
-      console.log(`📝 Available captions:`);
-      captionTracks.forEach(track => {
-        const type = track.kind === 'asr' ? '(auto)' : '(manual)';
-        console.log(`   • ${track.languageCode}: ${track.name.simpleText} ${type}`);
+      chapters.forEach((chapter, index) => {
+        console.log(`${index + 1}. ${formatChapterRange(chapter)}  ${chapter.title}`);
       });
 
-      // Select best caption
-      const selectedCaption = this.selectBestCaption(captionTracks, lang);
-      if (!selectedCaption) {
-        throw new Error('No suitable captions found');
-      }
+      console.log(`\n✅ Found ${chapters.length} chapters (from ${source === 'innertube' ? 'YouTube chapter data' : 'the description'})`);
+
+    } catch (error) {
+      console.error(`💥 Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(exitCodeFor(error));
+    }
+  }
 
-      const captionType = selectedCaption.kind === 'asr' ? 'auto-generated' : 'manual';
-      console.log(`\n✅ Using: ${selectedCaption.languageCode} (${captionType})\n`);
+  async listCaptions(videoInput: string) {
+    try {
+      console.log(`📝 Listing caption tracks for: ${videoInput}`);
 
-      // Fetch transcript content
-      const transcriptResponse = await this.axiosInstance.get(selectedCaption.baseUrl);
-      const parsedTranscript = this.parseXMLTranscript(transcriptResponse.data);
+      const { video, captions } = await this.client.listCaptions(videoInput, { refresh: this.refresh });
 
-      // Output transcript
-      console.log(`📝 Transcript with Timestamps:`);
-      console.log(`═══════════════════════════════════════`);
-      parsedTranscript.forEach(segment => {
-        console.log(`${segment.timestamp} ${segment.text}`);
+      console.log(`📹 Title: ${video.title}`);
+      console.log(`👤 Author: ${video.author}`);
+      console.log(`⏱️  Duration: ${video.duration}\n`);
+
+      console.log(`📝 Available captions:`);
+      captions.map(toCaptionInfo).forEach(caption => {
+        const type = caption.kind === 'asr' ? '(auto)' : '(manual)';
+        const translatable = caption.isTranslatable ? ', translatable' : '';
+        console.log(`   • ${caption.languageCode}: ${caption.name} ${type} [${caption.vssId}${translatable}]`);
       });
 
-      console.log(`\n✅ Extracted ${parsedTranscript.length} transcript segments`);
+      console.log(`\n✅ Found ${captions.length} caption tracks`);
 
     } catch (error) {
       console.error(`💥 Error: ${error instanceof Error ? error.message : String(error)}`);
-      process.exit(1);
+      process.exit(exitCodeFor(error));
     }
   }
 
-  async getSummary(videoInput: string, lang: string = 'zh-tw', mode: SummaryMode = 'narrative') {
+  async getVideoInfo(videoInput: string) {
     try {
-      console.log(`📊 Generating ${mode} summary in ${lang} for: ${videoInput}`);
-      
-      const videoId = this.extractVideoId(videoInput);
-      if (!videoId) {
-        throw new Error('Invalid YouTube URL or video ID');
-      }
+      console.log(`ℹ️  Fetching video info for: ${videoInput}`);
 
-      // Step 1: Get video info and captions from YouTube
-      const videoInfo = await this.getVideoInfo(videoId);
-      
-      if (!videoInfo.videoDetails) {
-        throw new Error('Could not fetch video details');
-      }
+      const info = await this.client.getVideoDetails(videoInput, { refresh: this.refresh });
+      const { video, playability } = info;
 
-      const { title, author, lengthSeconds } = videoInfo.videoDetails;
-      const duration = `${Math.floor(parseInt(lengthSeconds) / 60)}:${(parseInt(lengthSeconds) % 60).toString().padStart(2, '0')}`;
-
-      console.log(`📹 Title: ${title}`);
-      console.log(`👤 Author: ${author}`);
-      console.log(`⏱️  Duration: ${duration}\n`);
-      
-      // Step 2: Extract captions
-      const captionTracks = videoInfo.captions?.playerCaptionsTracklistRenderer?.captionTracks;
-      if (!captionTracks || captionTracks.length === 0) {
-        throw new Error('No captions available for this video');
+      console.log(`📹 Title: ${video.title}`);
+      console.log(`👤 Author: ${video.author} (${video.channelId})`);
+      console.log(`⏱️  Duration: ${video.duration}`);
+      console.log(`👀 Views: ${info.viewCount.toLocaleString('en-US')}`);
+      if (info.publishDate) {
+        console.log(`📅 Published: ${info.publishDate}`);
       }
-
-      // Step 3: Select best caption
-      const selectedCaption = this.selectBestCaption(captionTracks);
-      if (!selectedCaption) {
-        throw new Error('No suitable captions found');
+      if (info.category) {
+        console.log(`🏷️  Category: ${info.category}`);
+      }
+      console.log(`📡 Live: ${info.isLive ? 'live now' : info.isUpcoming ? 'upcoming' : info.isLiveContent ? 'past live stream' : 'no'}`);
+      console.log(`▶️  Playability: ${playability.status}${playability.reason ? ` (${playability.reason})` : ''}`);
+      console.log(`📝 Captions: ${info.captions.length > 0 ? info.captions.map(track => `${track.languageCode}${track.kind === 'asr' ? ' (auto)' : ''}`).join(', ') : 'none'}`);
+      if (info.keywords.length > 0) {
+        console.log(`🔑 Keywords: ${info.keywords.join(', ')}`);
       }
 
-      const captionType = selectedCaption.kind === 'asr' ? 'auto-generated' : 'manual';
-      console.log(`✅ Using captions: ${selectedCaption.languageCode} (${captionType})\n`);
+      console.log(`\n📄 Description:`);
+      console.log(`═══════════════════════════════════════`);
+      console.log(info.description || '(none)');
 
-      // Step 4: Extract transcript argument from caption URL
-      const transcriptArg = new URL(selectedCaption.baseUrl).search.slice(1);
+    } catch (error) {
+      console.error(`💥 Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(exitCodeFor(error));
+    }
+  }
 
-      // Step 5: Call DeepSRT API for summarization
-      const summaryParams = new URLSearchParams({
-        v: videoId,
-        action: 'summarize',
-        lang: lang,
-        mode: mode
-      });
+  /**
+   * A status line on stderr, so it never ends up in redirected output;
+   * rewritten in place on a terminal, one line per update otherwise
+   */
+  private statusLine() {
+    const live = process.stderr.isTTY;
+    return {
+      update(text: string) {
+        if (live) {
+          process.stderr.write(`\r\x1b[K${text}`);
+        } else {
+          console.error(text);
+        }
+      },
+      clear() {
+        if (live) {
+          process.stderr.write('\r\x1b[K');
+        }
+      }
+    };
+  }
 
-      const titleParams = new URLSearchParams({
-        v: videoId,
-        txt: title,
-        action: 'translate',
-        lang: lang,
-        mode: mode
-      });
+  async getSummary(videoInput: string, lang: string = 'zh-tw', mode: SummaryMode = 'narrative') {
+    try {
+      console.log(`📊 Generating ${mode} summary in ${lang} for: ${videoInput}`);
 
-      console.log(`🔄 Processing with DeepSRT API...`);
-
-      const [summaryResponse, titleResponse] = await Promise.all([
-        this.axiosInstance.get(`https://worker.deepsrt.com/transcript2?${summaryParams}`, {
-          headers: {
-            'Accept': 'application/json',
-            'X-Transcript-Arg': transcriptArg,
-            'User-Agent': 'DeepSRT-CLI/1.5.4'
-          }
-        }),
-        this.axiosInstance.get(`https://worker.deepsrt.com/transcript2?${titleParams}`, {
-          headers: {
-            'Accept': 'application/json',
-            'X-Transcript-Arg': transcriptArg,
-            'User-Agent': 'DeepSRT-CLI/1.5.4'
-          }
-        })
-      ]);
-
-      const summaryData = summaryResponse.data;
-      const titleData = titleResponse.data;
-
-      // Format response
-      const translatedTitle = titleData.success ? 
-        (titleData.result || titleData.translation || title) : title;
-      
-      const summaryText = summaryData.summary || summaryData.result || summaryData.content;
-
-      if (!summaryText) {
-        throw new Error(`Summary generation failed: ${summaryData.error || 'No summary generated'}`);
-      }
+      const status = this.statusLine();
+      const { video, caption, translatedTitle, summary } = await this.client.getSummary(videoInput, {
+        lang,
+        mode,
+        refresh: this.refresh,
+        onProgress: ({ progress, total, message }) => status.update(`🔄 [${progress + 1}/${total}] ${message}...`)
+      }).finally(() => status.clear());
+
+      console.log(`📹 Title: ${video.title}`);
+      console.log(`👤 Author: ${video.author}`);
+      console.log(`⏱️  Duration: ${video.duration}\n`);
+
+      const captionType = caption.kind === 'asr' ? 'auto-generated' : 'manual';
+      console.log(`✅ Using captions: ${caption.languageCode} (${captionType})\n`);
 
       // Output results
       console.log(`📊 Results:`);
       console.log(`═══════════════════════════════════════`);
-      
-      if (titleData.success && translatedTitle !== title) {
+
+      if (translatedTitle !== video.title) {
         console.log(`🏷️  Translated Title: ${translatedTitle}`);
       } else {
-        console.log(`🏷️  Title: ${title}`);
+        console.log(`🏷️  Title: ${video.title}`);
       }
 
       console.log(`\n📝 Summary (${mode} mode, ${lang}):`);
-      console.log(summaryText);
+      console.log(summary);
 
       console.log(`\n✅ Summary generated successfully`);
 
     } catch (error) {
       console.error(`💥 Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(exitCodeFor(error));
+    }
+  }
+
+  async getPlaylist(playlistInput: string, options: PlaylistOptions) {
+    try {
+      console.log(`📚 Resolving playlist: ${playlistInput}`);
+      if (options.include) {
+        console.log(`🔄 Fetching ${options.include} for each video...`);
+      }
+
+      const { title, videos } = await this.client.getPlaylist(playlistInput, { ...options, refresh: this.refresh });
+
+      console.log(`📋 Playlist: ${title}`);
+      console.log(`🎞️  Videos: ${videos.length}\n`);
+
+      videos.forEach(video => {
+        console.log(`${video.index}. ${video.title} (${video.duration}) [${video.videoId}]`);
+
+        if (video.error) {
+          console.log(`   ⚠️  ${video.error}\n`);
+        } else if (video.transcript) {
+          video.transcript.segments.forEach(segment => console.log(`   ${segment.timestamp} ${segment.text}`));
+          console.log('');
+        } else if (video.summary) {
+          console.log(`${video.summary.summary}\n`);
+        }
+      });
+
+      const failed = videos.filter(video => video.error).length;
+      if (options.include) {
+        console.log(`✅ Fetched ${videos.length - failed} of ${videos.length} ${options.include}s${failed ? ` (${failed} failed)` : ''}`);
+      } else {
+        console.log(`✅ Found ${videos.length} videos`);
+      }
+
+    } catch (error) {
+      console.error(`💥 Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(exitCodeFor(error));
+    }
+  }
+
+  async getChannelVideos(channelInput: string, cursor?: string) {
+    try {
+      console.log(`📺 Listing uploads for: ${channelInput}`);
+
+      const { channelId, title, videos, nextCursor } = await this.client.getChannelVideos(channelInput, { cursor, refresh: this.refresh });
+
+      console.log(`👤 Channel: ${title} (${channelId})\n`);
+
+      videos.forEach(video => {
+        const published = video.publishedText ? `${video.publishedText}${video.publishedAt ? `, ~${video.publishedAt}` : ''}` : 'unknown date';
+        console.log(`   • ${video.videoId}  ${video.title} (${video.duration}) — ${published}`);
+      });
+
+      console.log(`\n✅ Found ${videos.length} videos`);
+      if (nextCursor) {
+        console.log(`➡️  Older uploads: --cursor=${nextCursor}`);
+      }
+
+    } catch (error) {
+      console.error(`💥 Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(exitCodeFor(error));
+    }
+  }
+
+  async search(query: string, options: SearchOptions) {
+    try {
+      console.log(`🔍 Searching YouTube for: ${query}`);
+
+      const { videos } = await this.client.searchVideos(query, { ...options, refresh: this.refresh });
+
+      videos.forEach(video => {
+        const captions = video.hasCaptions ? ' [CC]' : '';
+        const published = video.publishedText ? `, ${video.publishedText}` : '';
+        console.log(`${video.rank}. ${video.title} (${video.duration})${captions}`);
+        console.log(`   👤 ${video.channel}${published} — ${video.videoId}`);
+      });
+
+      console.log(`\n✅ Found ${videos.length} videos`);
+
+    } catch (error) {
+      console.error(`💥 Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(exitCodeFor(error));
+    }
+  }
+}
+
+async function runCacheCommand(action: string) {
+  const cache = new DiskCache();
+
+  try {
+    if (action === 'clear') {
+      await cache.clear();
+      console.log(`🧹 Cleared cache at ${cache.directory}`);
+    } else if (action === 'stats') {
+      const stats = await cache.stats();
+      console.log(`📦 Cache: ${stats.directory}`);
+      console.log(`   Entries: ${stats.entries} (${stats.expired} expired)`);
+      console.log(`   Size: ${(stats.bytes / 1024).toFixed(1)} KB`);
+      Object.entries(stats.namespaces).forEach(([namespace, { entries, bytes }]) => {
+        console.log(`   • ${namespace}: ${entries} entries, ${(bytes / 1024).toFixed(1)} KB`);
+      });
+    } else {
+      console.error(`❌ Error: Unknown cache action '${action}'. Use: clear, stats`);
       process.exit(1);
     }
+  } catch (error) {
+    console.error(`💥 Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(exitCodeFor(error));
   }
 }
 
@@ -379,23 +406,66 @@ function parseArgs() {
   if (args.length === 0) {
     console.log(`🚀 DeepSRT CLI Tool v${VERSION}\n`);
     console.log(`Usage:`);
-    console.log(`  npx @deepsrt/deepsrt-mcp get-transcript <youtube-url> [--lang=<lang>]`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-transcript <youtube-url> [--lang=<lang>] [--format=<format>] [--start=<time>] [--end=<time>] [--group-by=chapter] [--segmentation=<mode>] [--links]`);
     console.log(`  npx @deepsrt/deepsrt-mcp get-summary <youtube-url> [--lang=<lang>] [--mode=<mode>]`);
+    console.log(`  npx @deepsrt/deepsrt-mcp list-captions <youtube-url>`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-video-info <youtube-url>`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-chapters <youtube-url>`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-playlist <playlist-url> [--include=<transcript|summary>] [--limit=<n>] [--concurrency=<n>]`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-channel-videos <channel> [--cursor=<cursor>]`);
+    console.log(`  npx @deepsrt/deepsrt-mcp search "<query>" [--limit=<n>] [--duration=<short|medium|long>] [--upload-date=<period>]`);
+    console.log(`  npx @deepsrt/deepsrt-mcp search-transcript <youtube-url> "<query>" [--match=<words|phrase|regex>] [--context=<n>] [--limit=<n>]`);
+    console.log(`  npx @deepsrt/deepsrt-mcp cache <clear|stats>`);
     console.log(`  deepsrt-mcp get-transcript <youtube-url> [--lang=<lang>]  (if installed globally)\n`);
     console.log(`Commands:`);
     console.log(`  get-transcript    Extract transcript with timestamps`);
-    console.log(`  get-summary       Generate video summary\n`);
+    console.log(`  get-summary       Generate video summary`);
+    console.log(`  list-captions     List available caption tracks`);
+    console.log(`  get-video-info    Show full video metadata`);
+    console.log(`  get-chapters      List video chapters`);
+    console.log(`  get-playlist      List a playlist's videos, optionally with transcripts or summaries`);
+    console.log(`  get-channel-videos List a channel's recent uploads (channel ID, @handle or URL)`);
+    console.log(`  search            Search YouTube videos`);
+    console.log(`  search-transcript Find where words are said in a video, with links to each hit`);
+    console.log(`  cache             Manage the local cache: clear|stats\n`);
     console.log(`Options:`);
     console.log(`  --lang=<lang>     Target language (default: en for transcript, zh-tw for summary)`);
-    console.log(`  --mode=<mode>     Summary mode: narrative|bullet (default: narrative)\n`);
+    console.log(`  --mode=<mode>     Summary mode: narrative|bullet (default: narrative)`);
+    console.log(`  --format=<fmt>    Transcript format: ${TRANSCRIPT_FORMATS.join('|')} (prints the file content only)`);
+    console.log(`  --start=<time>    Transcript start, seconds or HH:MM:SS (default: the URL's t= parameter)`);
+    console.log(`  --end=<time>      Transcript end, seconds or HH:MM:SS`);
+    console.log(`  --group-by=chapter Group the transcript under a heading per chapter`);
+    console.log(`  --segmentation=<mode> Transcript lines: ${SEGMENTATION_MODES.join('|')} (default: raw)`);
+    console.log(`  --links           Print each transcript timestamp as a Markdown link to that moment`);
+    console.log(`  --include=<what>  get-playlist: also fetch each video's transcript|summary`);
+    console.log(`  --limit=<n>       get-playlist/search/search-transcript: maximum number of results (default: 100/20/20)`);
+    console.log(`  --concurrency=<n> get-playlist: videos fetched in parallel (default: 3)`);
+    console.log(`  --cursor=<cursor> get-channel-videos: continue from a previous page`);
+    console.log(`  --duration=<len>  search: short (<4 min), medium (4-20 min) or long (>20 min)`);
+    console.log(`  --upload-date=<p> search: hour, today, week, month or year`);
+    console.log(`  --match=<mode>    search-transcript: words, phrase or regex (default: words)`);
+    console.log(`  --context=<n>     search-transcript: lines shown around each hit (default: 2)`);
+    console.log(`  --refresh         Fetch fresh data and update the cache`);
+    console.log(`  --no-cache        Do not read or write the cache\n`);
     console.log(`Installation:`);
     console.log(`  npm install -g @deepsrt/deepsrt-mcp  # Global installation (recommended)`);
     console.log(`  npm install @deepsrt/deepsrt-mcp     # Local installation\n`);
     console.log(`Examples:`);
     console.log(`  npx @deepsrt/deepsrt-mcp get-transcript https://www.youtube.com/watch?v=dQw4w9WgXcQ`);
     console.log(`  npx @deepsrt/deepsrt-mcp get-transcript dQw4w9WgXcQ --lang=en`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-transcript dQw4w9WgXcQ --format=srt > captions.srt`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-transcript dQw4w9WgXcQ --start=42:00 --end=55:00`);
     console.log(`  npx @deepsrt/deepsrt-mcp get-summary dQw4w9WgXcQ --lang=zh-tw --mode=bullet`);
-    console.log(`  npx @deepsrt/deepsrt-mcp get-summary https://youtu.be/dQw4w9WgXcQ --lang=ja\n`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-summary https://youtu.be/dQw4w9WgXcQ --lang=ja`);
+    console.log(`  npx @deepsrt/deepsrt-mcp list-captions https://youtu.be/dQw4w9WgXcQ`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-video-info dQw4w9WgXcQ`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-transcript dQw4w9WgXcQ --group-by=chapter`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-transcript dQw4w9WgXcQ --segmentation=sentence`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-playlist "https://www.youtube.com/playlist?list=PLxxxx" --include=summary`);
+    console.log(`  npx @deepsrt/deepsrt-mcp get-channel-videos @GoogleDevelopers`);
+    console.log(`  npx @deepsrt/deepsrt-mcp search "typescript generics" --duration=medium`);
+    console.log(`  npx @deepsrt/deepsrt-mcp search-transcript dQw4w9WgXcQ "never gonna" --match=phrase`);
+    console.log(`  npx @deepsrt/deepsrt-mcp cache stats\n`);
     console.log(`  # After global installation:`);
     console.log(`  deepsrt-mcp get-transcript https://www.youtube.com/watch?v=dQw4w9WgXcQ`);
     console.log(`  deepsrt-mcp get-summary dQw4w9WgXcQ --lang=zh-tw --mode=bullet`);
@@ -406,15 +476,38 @@ function parseArgs() {
   const videoInput = args[1];
   
   if (!videoInput) {
-    console.error('❌ Error: Video URL or ID is required');
+    console.error(command === 'cache'
+      ? '❌ Error: Cache action is required (clear or stats)'
+      : command === 'get-playlist'
+        ? '❌ Error: Playlist URL or ID is required'
+        : command === 'get-channel-videos'
+          ? '❌ Error: Channel ID, @handle or URL is required'
+          : command === 'search'
+            ? '❌ Error: Search query is required'
+            : '❌ Error: Video URL or ID is required');
+    process.exit(1);
+  }
+
+  // search-transcript takes the query as a second positional argument
+  const query = command === 'search-transcript' ? args[2] : undefined;
+  if (command === 'search-transcript' && (!query || query.startsWith('--'))) {
+    console.error('❌ Error: Search query is required');
     process.exit(1);
   }
 
   // Parse options
   let lang = '';
   let mode: SummaryMode = 'narrative';
-
-  for (let i = 2; i < args.length; i++) {
+  let format: TranscriptFormat | undefined;
+  const transcript: Pick<TranscriptOptions, 'start' | 'end' | 'groupBy' | 'segmentation'> & MarkdownOptions = {};
+  const listing: Pick<PlaylistOptions, 'limit' | 'include' | 'concurrency'> = {};
+  let cursor: string | undefined;
+  const searchFilters: Pick<SearchOptions, 'duration' | 'uploadDate'> = {};
+  const transcriptSearch: Pick<TranscriptSearchOptions, 'match' | 'context'> = {};
+  let cache = true;
+  let refresh = false;
+
+  for (let i = query ? 3 : 2; i < args.length; i++) {
     const arg = args[i];
     
     // Handle --lang=value format
@@ -441,31 +534,163 @@ function parseArgs() {
       }
       i++; // Skip next argument since we consumed it
     }
+    // Handle --format=value and --format value formats
+    else if (arg.startsWith('--format=') || (arg === '--format' && i + 1 < args.length)) {
+      const formatValue = arg === '--format' ? args[++i] : arg.split('=')[1];
+      if (!isTranscriptFormat(formatValue)) {
+        console.error(`❌ Error: Unsupported format '${formatValue}'. Use one of: ${TRANSCRIPT_FORMATS.join(', ')}`);
+        process.exit(1);
+      }
+      format = formatValue;
+    }
+    // Handle --start/--end in both --key=value and --key value formats
+    else if (/^--(start|end)=/.test(arg) || ((arg === '--start' || arg === '--end') && i + 1 < args.length)) {
+      const [key, inlineValue] = arg.slice(2).split('=');
+      const timeValue = inlineValue ?? args[++i];
+      const seconds = parseTimeToSeconds(timeValue);
+      if (seconds === null) {
+        console.error(`❌ Error: Invalid --${key} '${timeValue}'. Use seconds or HH:MM:SS`);
+        process.exit(1);
+      }
+      transcript[key as 'start' | 'end'] = seconds;
+    }
+    // Handle --group-by=value and --group-by value formats
+    else if (arg.startsWith('--group-by=') || (arg === '--group-by' && i + 1 < args.length)) {
+      const groupValue = arg === '--group-by' ? args[++i] : arg.split('=')[1];
+      if (groupValue !== 'chapter') {
+        console.error(`❌ Error: Unsupported --group-by '${groupValue}'. Use: chapter`);
+        process.exit(1);
+      }
+      transcript.groupBy = groupValue;
+    }
+    // Handle --include in both --include=value and --include value formats
+    else if (arg.startsWith('--include=') || (arg === '--include' && i + 1 < args.length)) {
+      const includeValue = arg === '--include' ? args[++i] : arg.split('=')[1];
+      if (includeValue !== 'transcript' && includeValue !== 'summary') {
+        console.error(`❌ Error: Unsupported --include '${includeValue}'. Use: transcript, summary`);
+        process.exit(1);
+      }
+      listing.include = includeValue as PlaylistInclude;
+    }
+    // Handle --limit/--concurrency in both --key=value and --key value formats
+    else if (/^--(limit|concurrency)=/.test(arg) || ((arg === '--limit' || arg === '--concurrency') && i + 1 < args.length)) {
+      const [key, inlineValue] = arg.slice(2).split('=');
+      const countValue = inlineValue ?? args[++i];
+      const count = Number(countValue);
+      if (!Number.isInteger(count) || count <= 0) {
+        console.error(`❌ Error: Invalid --${key} '${countValue}'. Use a positive integer`);
+        process.exit(1);
+      }
+      listing[key as 'limit' | 'concurrency'] = count;
+    }
+    // Handle --cursor=value and --cursor value formats
+    else if (arg.startsWith('--cursor=') || (arg === '--cursor' && i + 1 < args.length)) {
+      cursor = arg === '--cursor' ? args[++i] : arg.slice('--cursor='.length);
+    }
+    // Handle --duration/--upload-date in both --key=value and --key value formats
+    else if (/^--(duration|upload-date)=/.test(arg) || ((arg === '--duration' || arg === '--upload-date') && i + 1 < args.length)) {
+      const [key, inlineValue] = arg.slice(2).split('=');
+      const filterValue = inlineValue ?? args[++i];
+      if (key === 'duration') {
+        if (!['short', 'medium', 'long'].includes(filterValue)) {
+          console.error(`❌ Error: Invalid --duration '${filterValue}'. Use: short, medium, long`);
+          process.exit(1);
+        }
+        searchFilters.duration = filterValue as SearchDuration;
+      } else {
+        if (!['hour', 'today', 'week', 'month', 'year'].includes(filterValue)) {
+          console.error(`❌ Error: Invalid --upload-date '${filterValue}'. Use: hour, today, week, month, year`);
+          process.exit(1);
+        }
+        searchFilters.uploadDate = filterValue as SearchUploadDate;
+      }
+    }
+    // Handle --match=value and --match value formats
+    else if (arg.startsWith('--match=') || (arg === '--match' && i + 1 < args.length)) {
+      const matchValue = arg === '--match' ? args[++i] : arg.split('=')[1];
+      if (matchValue !== 'words' && matchValue !== 'phrase' && matchValue !== 'regex') {
+        console.error(`❌ Error: Unsupported --match '${matchValue}'. Use: words, phrase, regex`);
+        process.exit(1);
+      }
+      transcriptSearch.match = matchValue;
+    }
+    // Handle --context=value and --context value formats
+    else if (arg.startsWith('--context=') || (arg === '--context' && i + 1 < args.length)) {
+      const contextValue = arg === '--context' ? args[++i] : arg.split('=')[1];
+      const context = Number(contextValue);
+      if (!Number.isInteger(context) || context < 0) {
+        console.error(`❌ Error: Invalid --context '${contextValue}'. Use a non-negative integer`);
+        process.exit(1);
+      }
+      transcriptSearch.context = context;
+    }
+    // Handle --segmentation=value and --segmentation value formats
+    else if (arg.startsWith('--segmentation=') || (arg === '--segmentation' && i + 1 < args.length)) {
+      const segmentationValue = arg === '--segmentation' ? args[++i] : arg.split('=')[1];
+      if (!isSegmentationMode(segmentationValue)) {
+        console.error(`❌ Error: Unsupported --segmentation '${segmentationValue}'. Use one of: ${SEGMENTATION_MODES.join(', ')}`);
+        process.exit(1);
+      }
+      transcript.segmentation = segmentationValue;
+    }
+    else if (arg === '--links') {
+      transcript.links = true;
+    }
+    else if (arg === '--no-cache') {
+      cache = false;
+    }
+    else if (arg === '--refresh') {
+      refresh = true;
+    }
   }
 
-  // Set default languages
-  if (!lang) {
-    lang = command === 'get-transcript' ? 'en' : 'zh-tw';
+  // Set default summary language; transcripts only translate when --lang is given
+  if (!lang && command === 'get-summary') {
+    lang = 'zh-tw';
   }
 
-  return { command, videoInput, lang, mode };
+  return { command, videoInput, query, lang, mode, format, transcript, listing, cursor, searchFilters, transcriptSearch, cache, refresh };
 }
 
 // Main execution
 async function main() {
-  const { command, videoInput, lang, mode } = parseArgs();
-  const cli = new DeepSRTCLI();
+  const { command, videoInput, query, lang, mode, format, transcript, listing, cursor, searchFilters, transcriptSearch, cache, refresh } = parseArgs();
+  const cli = new DeepSRTCLI({ cache, refresh });
 
   switch (command) {
     case 'get-transcript':
-      await cli.getTranscript(videoInput, lang);
+      await cli.getTranscript(videoInput, lang || undefined, format, transcript);
       break;
     case 'get-summary':
       await cli.getSummary(videoInput, lang, mode);
       break;
+    case 'list-captions':
+      await cli.listCaptions(videoInput);
+      break;
+    case 'get-chapters':
+      await cli.getChapters(videoInput);
+      break;
+    case 'get-video-info':
+      await cli.getVideoInfo(videoInput);
+      break;
+    case 'get-playlist':
+      await cli.getPlaylist(videoInput, { ...listing, lang: lang || undefined, mode });
+      break;
+    case 'get-channel-videos':
+      await cli.getChannelVideos(videoInput, cursor);
+      break;
+    case 'search':
+      await cli.search(videoInput, { ...searchFilters, limit: listing.limit });
+      break;
+    case 'search-transcript':
+      await cli.searchTranscript(videoInput, query!, { ...transcriptSearch, limit: listing.limit, lang: lang || undefined });
+      break;
+    case 'cache':
+      await runCacheCommand(videoInput);
+      break;
     default:
       console.error(`❌ Error: Unknown command '${command}'`);
-      console.log(`Available commands: get-transcript, get-summary`);
+      console.log(`Available commands: get-transcript, get-summary, list-captions, get-chapters, get-video-info, get-playlist, get-channel-videos, search, search-transcript, cache`);
       process.exit(1);
   }
 }
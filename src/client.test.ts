@@ -0,0 +1,760 @@
+import { describe, test, expect, mock } from 'bun:test';
+import type { AxiosInstance } from 'axios';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DiskCache } from './cache.js';
+import { DeepSRTClient } from './client.js';
+import { AgeRestrictedError, RateLimitedError, UpstreamError, VideoUnavailableError } from './errors.js';
+import type { ProgressUpdate } from './types.js';
+
+const mockVideoInfo = {
+  videoDetails: {
+    videoId: 'dQw4w9WgXcQ',
+    title: 'Test Video',
+    author: 'Test Author',
+    channelId: 'UC123',
+    lengthSeconds: '185'
+  },
+  captions: {
+    playerCaptionsTracklistRenderer: {
+      captionTracks: [
+        {
+          baseUrl: 'https://www.youtube.com/api/timedtext?v=dQw4w9WgXcQ&lang=en&kind=asr',
+          name: { simpleText: 'English (auto-generated)' },
+          vssId: 'a.en',
+          languageCode: 'en',
+          kind: 'asr',
+          isTranslatable: true
+        },
+        {
+          baseUrl: 'https://www.youtube.com/api/timedtext?v=dQw4w9WgXcQ&lang=ja',
+          name: { simpleText: 'Japanese' },
+          vssId: '.ja',
+          languageCode: 'ja',
+          isTranslatable: true
+        }
+      ]
+    }
+  }
+};
+
+const mockTimedText = `<timedtext format="3"><body>
+<p t="0" d="2000"><s>Hello</s><s> world</s></p>
+<p t="2000" d="3000"><s>This</s><s> is</s><s> a</s><s> test</s></p>
+</body></timedtext>`;
+
+function createMockAxios(routes: { post?: any; get?: (url: string) => any }) {
+  return {
+    post: mock((url: string, body: any) => Promise.resolve({
+      data: typeof routes.post === 'function' ? routes.post(url, body) : routes.post ?? mockVideoInfo
+    })),
+    get: mock((url: string) => Promise.resolve({ data: routes.get ? routes.get(url) : mockTimedText }))
+  };
+}
+
+function createClient(mockAxios: ReturnType<typeof createMockAxios>, cache: DiskCache | false = false) {
+  return new DeepSRTClient({ axiosInstance: mockAxios as unknown as AxiosInstance, cache });
+}
+
+describe('DeepSRTClient', () => {
+  describe('listCaptions', () => {
+    test('returns video metadata and every caption track', async () => {
+      const client = createClient(createMockAxios({}));
+      const result = await client.listCaptions('https://youtu.be/dQw4w9WgXcQ');
+
+      expect(result.video).toEqual({
+        videoId: 'dQw4w9WgXcQ',
+        title: 'Test Video',
+        author: 'Test Author',
+        channelId: 'UC123',
+        lengthSeconds: 185,
+        duration: '3:05'
+      });
+      expect(result.captions.map(c => c.languageCode)).toEqual(['en', 'ja']);
+    });
+
+    test('rejects invalid video input', async () => {
+      const client = createClient(createMockAxios({}));
+      await expect(client.listCaptions('https://example.com/watch')).rejects.toThrow('Invalid YouTube URL or video ID');
+    });
+
+    test('rejects videos without captions', async () => {
+      const client = createClient(createMockAxios({
+        post: { videoDetails: mockVideoInfo.videoDetails }
+      }));
+      await expect(client.listCaptions('dQw4w9WgXcQ')).rejects.toThrow('No captions available for this video');
+    });
+  });
+
+  describe('getTranscript', () => {
+    test('merges cues into sentences when asked', async () => {
+      const client = createClient(createMockAxios({}));
+      const result = await client.getTranscript('dQw4w9WgXcQ', { segmentation: 'sentence' });
+
+      expect(result.segmentation).toBe('sentence');
+      expect(result.segments).toEqual([
+        { timestamp: '[00:00]', startMs: 0, durationMs: 5000, text: 'Hello world This is a test.' }
+      ]);
+      expect((await client.getTranscript('dQw4w9WgXcQ', { segmentation: 'raw' })).segments).toHaveLength(2);
+    });
+
+    test('fetches and parses the preferred caption track', async () => {
+      const mockAxios = createMockAxios({});
+      const client = createClient(mockAxios);
+      const result = await client.getTranscript('dQw4w9WgXcQ', { lang: 'ja' });
+
+      expect(result.caption.languageCode).toBe('ja');
+      expect(mockAxios.get).toHaveBeenCalledWith(mockVideoInfo.captions.playerCaptionsTracklistRenderer.captionTracks[1].baseUrl, { signal: undefined });
+      expect(result.segments).toEqual([
+        { timestamp: '[00:00]', startMs: 0, durationMs: 2000, text: 'Hello world' },
+        { timestamp: '[00:02]', startMs: 2000, durationMs: 3000, text: 'This is a test' }
+      ]);
+    });
+  });
+
+  describe('getTranscript time range', () => {
+    test('slices segments to start and end', async () => {
+      const client = createClient(createMockAxios({}));
+      const result = await client.getTranscript('dQw4w9WgXcQ', { start: 2, end: 10 });
+
+      expect(result.range).toEqual({ startSeconds: 2, endSeconds: 10 });
+      expect(result.segments.map(s => s.text)).toEqual(['This is a test']);
+    });
+
+    test('uses the URL t= parameter as the default start', async () => {
+      const client = createClient(createMockAxios({}));
+      const result = await client.getTranscript('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=3');
+
+      expect(result.range).toEqual({ startSeconds: 3 });
+      expect(result.segments.map(s => s.text)).toEqual(['This is a test']);
+    });
+
+    test('rejects an end before the start', async () => {
+      const client = createClient(createMockAxios({}));
+      await expect(client.getTranscript('dQw4w9WgXcQ', { start: 10, end: 5 })).rejects.toThrow('end time must be after the start time');
+    });
+  });
+
+  describe('getTranscript translation', () => {
+    test('machine-translates a translatable track when the language is missing', async () => {
+      const mockAxios = createMockAxios({});
+      const client = createClient(mockAxios);
+      const result = await client.getTranscript('dQw4w9WgXcQ', { lang: 'ko' });
+
+      // Manual tracks are preferred as the translation source
+      expect(result.caption.languageCode).toBe('ja');
+      expect(result.translation).toEqual({ sourceLanguageCode: 'ja', targetLanguageCode: 'ko' });
+      expect(mockAxios.get).toHaveBeenCalledWith('https://www.youtube.com/api/timedtext?v=dQw4w9WgXcQ&lang=ja&tlang=ko', { signal: undefined });
+    });
+
+    test('matches existing tracks case-insensitively', async () => {
+      const client = createClient(createMockAxios({}));
+      const result = await client.getTranscript('dQw4w9WgXcQ', { lang: 'JA' });
+
+      expect(result.caption.languageCode).toBe('ja');
+      expect(result.translation).toBeUndefined();
+    });
+
+    test('does not translate when no language is requested', async () => {
+      const client = createClient(createMockAxios({}));
+      const result = await client.getTranscript('dQw4w9WgXcQ');
+
+      expect(result.caption.languageCode).toBe('en');
+      expect(result.translation).toBeUndefined();
+    });
+
+    test('falls back to another language when nothing is translatable', async () => {
+      const tracks = mockVideoInfo.captions.playerCaptionsTracklistRenderer.captionTracks
+        .map(track => ({ ...track, isTranslatable: false }));
+      const client = createClient(createMockAxios({
+        post: { ...mockVideoInfo, captions: { playerCaptionsTracklistRenderer: { captionTracks: tracks } } }
+      }));
+      const result = await client.getTranscript('dQw4w9WgXcQ', { lang: 'ko' });
+
+      expect(result.caption.languageCode).toBe('ja');
+      expect(result.translation).toBeUndefined();
+    });
+  });
+
+  describe('searchTranscript', () => {
+    test('returns hits with context and links, ignoring the URL start offset', async () => {
+      const client = createClient(createMockAxios({}));
+      const result = await client.searchTranscript('https://youtu.be/dQw4w9WgXcQ?t=30', 'TEST', { context: 1 });
+
+      expect(result.query).toBe('TEST');
+      expect(result.match).toBe('words');
+      expect(result.totalHits).toBe(1);
+      expect(result.hits).toEqual([{
+        timestamp: '[00:02]',
+        startSeconds: 2,
+        url: 'https://youtu.be/dQw4w9WgXcQ?t=2',
+        text: 'This is a test',
+        before: [{ timestamp: '[00:00]', startMs: 0, durationMs: 2000, text: 'Hello world' }],
+        after: []
+      }]);
+    });
+
+    test('limits the hits but reports the total', async () => {
+      const client = createClient(createMockAxios({}));
+      const result = await client.searchTranscript('dQw4w9WgXcQ', '\\w+', { match: 'regex', limit: 1 });
+
+      expect(result.totalHits).toBe(2);
+      expect(result.hits).toHaveLength(1);
+    });
+
+    test('rejects an empty query', async () => {
+      const client = createClient(createMockAxios({}));
+      await expect(client.searchTranscript('dQw4w9WgXcQ', '  ')).rejects.toThrow('Search query is required');
+    });
+  });
+
+  describe('getSummary', () => {
+    test('calls the worker for summary and title translation', async () => {
+      const mockAxios = createMockAxios({
+        get: (url: string) => url.includes('action=summarize')
+          ? { success: true, summary: 'A short summary.' }
+          : { success: true, result: '測試影片' }
+      });
+      const client = createClient(mockAxios);
+      const result = await client.getSummary('dQw4w9WgXcQ', { lang: 'zh-tw', mode: 'bullet' });
+
+      expect(result.summary).toBe('A short summary.');
+      expect(result.translatedTitle).toBe('測試影片');
+      expect(result.lang).toBe('zh-tw');
+      expect(result.mode).toBe('bullet');
+      expect(mockAxios.get).toHaveBeenCalledTimes(2);
+
+      const [url, requestConfig] = (mockAxios.get.mock.calls[0] as unknown) as [string, any];
+      expect(url.startsWith('https://worker.deepsrt.com/transcript2?')).toBe(true);
+      expect(requestConfig.headers['X-Transcript-Arg']).toBe('v=dQw4w9WgXcQ&lang=en&kind=asr');
+    });
+
+    test('falls back to the original title when translation fails', async () => {
+      const client = createClient(createMockAxios({
+        get: (url: string) => url.includes('action=summarize')
+          ? { summary: 'Summary' }
+          : { success: false }
+      }));
+      const result = await client.getSummary('dQw4w9WgXcQ');
+
+      expect(result.translatedTitle).toBe('Test Video');
+      expect(result.lang).toBe('zh-tw');
+      expect(result.mode).toBe('narrative');
+    });
+
+    test('rejects when no summary is generated', async () => {
+      const client = createClient(createMockAxios({
+        get: () => ({ error: 'Quota exceeded' })
+      }));
+      await expect(client.getSummary('dQw4w9WgXcQ')).rejects.toThrow('Quota exceeded');
+    });
+
+    test('reports each stage through onProgress', async () => {
+      const client = createClient(createMockAxios({
+        get: (url: string) => url.includes('action=summarize') ? { summary: 'Summary' } : { success: false }
+      }));
+      const updates: ProgressUpdate[] = [];
+      await client.getSummary('dQw4w9WgXcQ', { onProgress: update => updates.push(update) });
+
+      expect(updates.map(update => update.stage)).toEqual(['fetching_video_info', 'selecting_captions', 'summarizing', 'translating_title']);
+      expect(updates.map(update => update.progress)).toEqual([0, 1, 2, 3]);
+      expect(updates[0]).toEqual({ stage: 'fetching_video_info', progress: 0, total: 4, message: 'Fetching video info' });
+    });
+  });
+
+  describe('getVideoDetails', () => {
+    test('returns the full player metadata', async () => {
+      const client = createClient(createMockAxios({
+        post: {
+          ...mockVideoInfo,
+          playabilityStatus: { status: 'OK', playableInEmbed: true },
+          videoDetails: {
+            ...mockVideoInfo.videoDetails,
+            shortDescription: 'About this video',
+            keywords: ['music', 'classic'],
+            viewCount: '1500000000',
+            thumbnail: { thumbnails: [{ url: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg', width: 480, height: 360 }] },
+            isLiveContent: false
+          },
+          microformat: { playerMicroformatRenderer: { publishDate: '2009-10-24', category: 'Music' } }
+        }
+      }));
+      const info = await client.getVideoDetails('dQw4w9WgXcQ');
+
+      expect(info.video.title).toBe('Test Video');
+      expect(info.description).toBe('About this video');
+      expect(info.keywords).toEqual(['music', 'classic']);
+      expect(info.viewCount).toBe(1500000000);
+      expect(info.thumbnails[0].width).toBe(480);
+      expect(info.publishDate).toBe('2009-10-24');
+      expect(info.category).toBe('Music');
+      expect(info).toMatchObject({ isLive: false, isLiveContent: false, isUpcoming: false, isPrivate: false });
+      expect(info.playability).toEqual({ status: 'OK' });
+      expect(info.captions.map(track => track.vssId)).toEqual(['a.en', '.ja']);
+    });
+
+    test('works for videos without captions', async () => {
+      const client = createClient(createMockAxios({
+        post: { playabilityStatus: { status: 'OK' }, videoDetails: { ...mockVideoInfo.videoDetails, isUpcoming: true } }
+      }));
+      const info = await client.getVideoDetails('dQw4w9WgXcQ');
+
+      expect(info.captions).toEqual([]);
+      expect(info.isUpcoming).toBe(true);
+      expect(info.description).toBe('');
+    });
+
+    test('throws the playability error when details are missing', async () => {
+      const client = createClient(createMockAxios({
+        post: { playabilityStatus: { status: 'ERROR', reason: 'This video has been removed by the uploader' } }
+      }));
+      const details = client.getVideoDetails('dQw4w9WgXcQ');
+
+      await expect(details).rejects.toThrow(VideoUnavailableError);
+      await expect(details).rejects.toThrow('This video has been removed by the uploader');
+    });
+
+    test('still returns metadata of videos that cannot be transcribed', async () => {
+      const client = createClient(createMockAxios({
+        post: { ...mockVideoInfo, playabilityStatus: { status: 'LOGIN_REQUIRED', reason: 'Sign in to confirm your age' } }
+      }));
+
+      expect((await client.getVideoDetails('dQw4w9WgXcQ')).playability.status).toBe('LOGIN_REQUIRED');
+      await expect(client.getTranscript('dQw4w9WgXcQ')).rejects.toThrow(AgeRestrictedError);
+    });
+  });
+
+  describe('getChapters', () => {
+    const describedVideo = {
+      ...mockVideoInfo,
+      videoDetails: { ...mockVideoInfo.videoDetails, shortDescription: '0:00 Hello\n0:02 Test\n3:00 Outro' }
+    };
+
+    test('prefers InnerTube chapter data', async () => {
+      const mockAxios = createMockAxios({
+        post: (url: string) => url.endsWith('/next')
+          ? {
+              playerOverlays: {
+                chapters: [
+                  { chapterRenderer: { title: { simpleText: 'Opening' }, timeRangeStartMillis: 0 } },
+                  { chapterRenderer: { title: { simpleText: 'Main part' }, timeRangeStartMillis: 90000 } }
+                ]
+              }
+            }
+          : describedVideo
+      });
+      const result = await createClient(mockAxios).getChapters('dQw4w9WgXcQ');
+
+      expect(result.source).toBe('innertube');
+      expect(result.chapters).toEqual([
+        { title: 'Opening', startSeconds: 0, endSeconds: 90 },
+        { title: 'Main part', startSeconds: 90, endSeconds: 185 }
+      ]);
+    });
+
+    test('falls back to description timestamps', async () => {
+      const result = await createClient(createMockAxios({ post: describedVideo })).getChapters('dQw4w9WgXcQ');
+
+      expect(result.source).toBe('description');
+      expect(result.chapters.map(chapter => chapter.title)).toEqual(['Hello', 'Test', 'Outro']);
+    });
+
+    test('returns no chapters when neither source has any', async () => {
+      const result = await createClient(createMockAxios({})).getChapters('dQw4w9WgXcQ');
+
+      expect(result.source).toBeUndefined();
+      expect(result.chapters).toEqual([]);
+    });
+
+    test('groupBy chapter attaches chapters to the transcript', async () => {
+      const client = createClient(createMockAxios({ post: describedVideo }));
+
+      expect((await client.getTranscript('dQw4w9WgXcQ', { groupBy: 'chapter' })).chapters).toHaveLength(3);
+      expect((await client.getTranscript('dQw4w9WgXcQ')).chapters).toBeUndefined();
+    });
+  });
+
+  describe('getPlaylist', () => {
+    const playlistVideo = (videoId: string, title: string) => ({
+      playlistVideoRenderer: {
+        videoId,
+        title: { runs: [{ text: title }] },
+        shortBylineText: { runs: [{ text: 'Course Channel' }] },
+        lengthSeconds: '125'
+      }
+    });
+
+    const browseRoutes = (url: string, body: any) => {
+      if (!url.endsWith('/browse')) {
+        return mockVideoInfo;
+      }
+      if (body.continuation === 'page-2') {
+        return {
+          onResponseReceivedActions: [{
+            appendContinuationItemsAction: { continuationItems: [playlistVideo('ccccccccccc', 'Lesson 3')] }
+          }]
+        };
+      }
+      return {
+        metadata: { playlistMetadataRenderer: { title: 'Course' } },
+        contents: {
+          playlistVideoListRenderer: {
+            contents: [
+              playlistVideo('aaaaaaaaaaa', 'Lesson 1'),
+              playlistVideo('bbbbbbbbbbb', 'Lesson 2'),
+              { continuationItemRenderer: { continuationEndpoint: { continuationCommand: { token: 'page-2' } } } }
+            ]
+          }
+        }
+      };
+    };
+
+    test('resolves every page of a playlist in order', async () => {
+      const mockAxios = createMockAxios({ post: browseRoutes });
+      const client = createClient(mockAxios);
+      const result = await client.getPlaylist('https://www.youtube.com/playlist?list=PLabcdefghijkl');
+
+      expect(result.playlistId).toBe('PLabcdefghijkl');
+      expect(result.title).toBe('Course');
+      expect(result.videos.map(video => [video.index, video.videoId])).toEqual([
+        [1, 'aaaaaaaaaaa'],
+        [2, 'bbbbbbbbbbb'],
+        [3, 'ccccccccccc']
+      ]);
+      expect(result.videos[0]).toMatchObject({ title: 'Lesson 1', author: 'Course Channel', lengthSeconds: 125, duration: '2:05' });
+      expect((mockAxios.post.mock.calls[0] as unknown as [string, any])[1].browseId).toBe('VLPLabcdefghijkl');
+    });
+
+    test('stops paging once the limit is reached', async () => {
+      const mockAxios = createMockAxios({ post: browseRoutes });
+      const result = await createClient(mockAxios).getPlaylist('PLabcdefghijkl', { limit: 1 });
+
+      expect(result.videos).toHaveLength(1);
+      expect(mockAxios.post).toHaveBeenCalledTimes(1);
+    });
+
+    test('reports per-video failures without stopping the rest', async () => {
+      const client = createClient(createMockAxios({
+        post: (url: string, body: any) => body.videoId === 'bbbbbbbbbbb'
+          ? { videoDetails: mockVideoInfo.videoDetails }
+          : browseRoutes(url, body)
+      }));
+      const result = await client.getPlaylist('PLabcdefghijkl', { include: 'transcript', concurrency: 2 });
+
+      expect(result.include).toBe('transcript');
+      expect(result.videos[0].transcript?.segments[0].text).toBe('Hello world');
+      expect(result.videos[1].error).toBe('No captions available for this video');
+      expect(result.videos[2].transcript?.segments).toHaveLength(2);
+    });
+
+    test('rejects input without a playlist ID', async () => {
+      const client = createClient(createMockAxios({}));
+      await expect(client.getPlaylist('dQw4w9WgXcQ')).rejects.toThrow('Invalid YouTube playlist URL or ID');
+    });
+
+    test('passes the abort signal to every request and stops once it aborts', async () => {
+      const controller = new AbortController();
+      const mockAxios = createMockAxios({
+        post: (url: string, body: any) => {
+          if (body.videoId === 'aaaaaaaaaaa') controller.abort();
+          return browseRoutes(url, body);
+        }
+      });
+      const run = createClient(mockAxios).getPlaylist('PLabcdefghijkl', { include: 'transcript', concurrency: 1, signal: controller.signal });
+
+      await expect(run).rejects.toThrow();
+      // Two browse pages and the first video's player request; the other videos never start
+      expect(mockAxios.post).toHaveBeenCalledTimes(3);
+      expect(mockAxios.post.mock.calls.every(call => (call as unknown as [string, any, any])[2].signal === controller.signal)).toBe(true);
+    });
+  });
+
+  describe('batches', () => {
+    test('getTranscripts returns entries in input order with per-video errors', async () => {
+      const client = createClient(createMockAxios({
+        post: (url: string, body: any) => body.videoId === 'bbbbbbbbbbb' ? { videoDetails: mockVideoInfo.videoDetails } : mockVideoInfo
+      }));
+      const result = await client.getTranscripts(['https://youtu.be/aaaaaaaaaaa', 'bbbbbbbbbbb', 'not a url!'], { concurrency: 2 });
+
+      expect(result.include).toBe('transcript');
+      expect(result.items.map(item => item.input)).toEqual(['https://youtu.be/aaaaaaaaaaa', 'bbbbbbbbbbb', 'not a url!']);
+      expect(result.items[0].transcript?.segments[0].text).toBe('Hello world');
+      expect(result.items[1].error).toBe('No captions available for this video');
+      expect(result.items[2].error).toBe('Invalid YouTube URL or video ID');
+    });
+
+    test('getSummaries passes lang and mode to every video', async () => {
+      const mockAxios = createMockAxios({
+        get: (url: string) => url.includes('action=summarize') ? { summary: 'Summary' } : { success: false }
+      });
+      const result = await createClient(mockAxios).getSummaries(['aaaaaaaaaaa', 'bbbbbbbbbbb'], { lang: 'en', mode: 'bullet' });
+
+      expect(result.include).toBe('summary');
+      expect(result.items.map(item => [item.summary?.lang, item.summary?.mode])).toEqual([['en', 'bullet'], ['en', 'bullet']]);
+      expect(mockAxios.get).toHaveBeenCalledTimes(4);
+    });
+
+    test('rejects empty and oversized batches', async () => {
+      const client = createClient(createMockAxios({}));
+      await expect(client.getSummaries([])).rejects.toThrow('At least one video is required');
+      await expect(client.getTranscripts(Array(51).fill('dQw4w9WgXcQ'))).rejects.toThrow('Too many videos: 51 (max 50)');
+    });
+  });
+
+  describe('getChannelVideos', () => {
+    const channelId = 'UCabcdefghijklmnopqrstuv';
+    const upload = (videoId: string, title: string, published: string) => ({
+      richItemRenderer: {
+        content: {
+          videoRenderer: {
+            videoId,
+            title: { runs: [{ text: title }] },
+            lengthText: { simpleText: '12:34' },
+            publishedTimeText: { simpleText: published }
+          }
+        }
+      }
+    });
+
+    const channelRoutes = (url: string, body: any) => {
+      if (url.endsWith('/resolve_url')) {
+        return { endpoint: { browseEndpoint: { browseId: channelId } } };
+      }
+      if (body.continuation === 'older') {
+        return {
+          onResponseReceivedActions: [{
+            appendContinuationItemsAction: { continuationItems: [upload('ccccccccccc', 'Old upload', '2 years ago')] }
+          }]
+        };
+      }
+      return {
+        metadata: { channelMetadataRenderer: { title: 'Research Channel' } },
+        contents: {
+          richGridRenderer: {
+            contents: [
+              upload('aaaaaaaaaaa', 'New upload', '3 days ago'),
+              upload('bbbbbbbbbbb', 'Live session', 'Streamed 1 week ago'),
+              { continuationItemRenderer: { continuationEndpoint: { continuationCommand: { token: 'older' } } } }
+            ]
+          }
+        }
+      };
+    };
+
+    test('resolves a handle and lists the newest uploads', async () => {
+      const mockAxios = createMockAxios({ post: channelRoutes });
+      const result = await createClient(mockAxios).getChannelVideos('@research');
+
+      expect(result.channelId).toBe(channelId);
+      expect(result.title).toBe('Research Channel');
+      expect(result.videos).toHaveLength(2);
+      expect(result.videos[0]).toMatchObject({
+        videoId: 'aaaaaaaaaaa',
+        title: 'New upload',
+        lengthSeconds: 754,
+        duration: '12:34',
+        publishedText: '3 days ago'
+      });
+      expect(result.videos[1].publishedAt).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      expect(result.nextCursor).toBeDefined();
+
+      const [resolveUrl, resolveBody] = mockAxios.post.mock.calls[0] as unknown as [string, any];
+      expect(resolveUrl.endsWith('/navigation/resolve_url')).toBe(true);
+      expect(resolveBody.url).toBe('https://www.youtube.com/@research');
+    });
+
+    test('follows nextCursor to older uploads', async () => {
+      const client = createClient(createMockAxios({ post: channelRoutes }));
+      const first = await client.getChannelVideos(channelId);
+      const next = await client.getChannelVideos(channelId, { cursor: first.nextCursor });
+
+      expect(next.title).toBe('Research Channel');
+      expect(next.videos.map(video => video.videoId)).toEqual(['ccccccccccc']);
+      expect(next.nextCursor).toBeUndefined();
+    });
+
+    test('rejects cursors from another channel', async () => {
+      const client = createClient(createMockAxios({ post: channelRoutes }));
+      const { nextCursor } = await client.getChannelVideos(channelId);
+
+      await expect(client.getChannelVideos('UCzzzzzzzzzzzzzzzzzzzzzz', { cursor: nextCursor }))
+        .rejects.toThrow('Cursor does not belong to this channel');
+    });
+  });
+
+  describe('getThumbnail', () => {
+    function createImageAxios(missing: string[] = []) {
+      return {
+        post: mock(() => Promise.resolve({ data: mockVideoInfo })),
+        get: mock((url: string) => missing.some(file => url.endsWith(file))
+          ? Promise.reject(new Error('Request failed with status code 404'))
+          : Promise.resolve({ data: Buffer.from('image bytes'), headers: url.includes('ytimg') ? {} : { 'content-type': 'image/png' } }))
+      };
+    }
+
+    test('returns base64 image data at the requested size', async () => {
+      const mockAxios = createImageAxios();
+      const result = await createClient(mockAxios).getThumbnail('https://youtu.be/dQw4w9WgXcQ', { size: 'large' });
+
+      expect(result).toEqual({
+        videoId: 'dQw4w9WgXcQ',
+        size: 'large',
+        url: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/maxresdefault.jpg',
+        mimeType: 'image/jpeg',
+        data: Buffer.from('image bytes').toString('base64'),
+        fallback: false
+      });
+      expect(mockAxios.post).not.toHaveBeenCalled();
+    });
+
+    test('defaults to the medium size', async () => {
+      const result = await createClient(createImageAxios()).getThumbnail('dQw4w9WgXcQ');
+
+      expect(result.url).toBe('https://i.ytimg.com/vi/dQw4w9WgXcQ/sddefault.jpg');
+    });
+
+    test('uses the configured fallback when the size does not exist', async () => {
+      const result = await createClient(createImageAxios(['maxresdefault.jpg'])).getThumbnail('dQw4w9WgXcQ', { size: 'large' });
+
+      expect(result.fallback).toBe(true);
+      expect(result.url).toBe('https://via.placeholder.com/1280x720');
+      expect(result.mimeType).toBe('image/png');
+    });
+
+    test('rejects invalid video input', async () => {
+      await expect(createClient(createImageAxios()).getThumbnail('https://example.com/watch')).rejects.toThrow('Invalid YouTube URL or video ID');
+    });
+  });
+
+  describe('searchVideos', () => {
+    const result = (videoId: string) => ({
+      compactVideoRenderer: { videoId, title: { simpleText: `Video ${videoId}` }, lengthText: { simpleText: '10:00' } }
+    });
+
+    test('ranks results across pages and sends the player client context', async () => {
+      const mockAxios = createMockAxios({
+        post: (url: string, body: any) => body.continuation
+          ? { contents: [result('bbbbbbbbbbb'), result('ccccccccccc')] }
+          : {
+              contents: [
+                result('aaaaaaaaaaa'),
+                result('bbbbbbbbbbb'),
+                { continuationItemRenderer: { continuationEndpoint: { continuationCommand: { token: 'next' } } } }
+              ]
+            }
+      });
+      const search = await createClient(mockAxios).searchVideos('typescript', { limit: 3, duration: 'long' });
+
+      expect(search.filters).toEqual({ duration: 'long' });
+      expect(search.videos.map(video => [video.rank, video.videoId])).toEqual([
+        [1, 'aaaaaaaaaaa'],
+        [2, 'bbbbbbbbbbb'],
+        [3, 'ccccccccccc']
+      ]);
+
+      const [url, body] = mockAxios.post.mock.calls[0] as unknown as [string, any];
+      expect(url.endsWith('/youtubei/v1/search')).toBe(true);
+      expect(body.context.client.clientName).toBe('ANDROID');
+      expect(body.query).toBe('typescript');
+      expect(body.params).toBe('EgQQARgC');
+    });
+
+    test('rejects an empty query', async () => {
+      await expect(createClient(createMockAxios({})).searchVideos('  ')).rejects.toThrow('Search query is required');
+    });
+  });
+
+  describe('typed errors', () => {
+    test('rejects private videos, live streams and videos without captions by kind', async () => {
+      const privateVideo = createClient(createMockAxios({
+        post: { playabilityStatus: { status: 'LOGIN_REQUIRED', reason: 'This video is private' } }
+      }));
+      const liveVideo = createClient(createMockAxios({
+        post: { ...mockVideoInfo, videoDetails: { ...mockVideoInfo.videoDetails, isLive: true } }
+      }));
+      const silentVideo = createClient(createMockAxios({ post: { videoDetails: mockVideoInfo.videoDetails } }));
+
+      await expect(privateVideo.getSummary('dQw4w9WgXcQ')).rejects.toMatchObject({ code: 'LOGIN_REQUIRED', exitCode: 4 });
+      await expect(liveVideo.getTranscript('dQw4w9WgXcQ')).rejects.toMatchObject({ code: 'LIVE_NOT_SUPPORTED' });
+      await expect(silentVideo.getTranscript('dQw4w9WgXcQ')).rejects.toMatchObject({ code: 'NO_CAPTIONS' });
+    });
+
+    test('maps HTTP failures to RateLimited and UpstreamError', async () => {
+      const httpError = (status: number) => Object.assign(new Error(`Request failed with status code ${status}`), {
+        isAxiosError: true,
+        response: { status }
+      });
+      const mockAxios = createMockAxios({});
+      mockAxios.post.mockImplementation(() => Promise.reject(httpError(429)));
+      mockAxios.get.mockImplementation(() => Promise.reject(httpError(503)));
+      const client = createClient(mockAxios);
+
+      await expect(client.getTranscript('dQw4w9WgXcQ')).rejects.toThrow(RateLimitedError);
+
+      mockAxios.post.mockImplementation(() => Promise.resolve({ data: mockVideoInfo }));
+      const failed = client.getTranscript('dQw4w9WgXcQ');
+      await expect(failed).rejects.toThrow(UpstreamError);
+      await expect(failed).rejects.toThrow('YouTube captions request failed: Request failed with status code 503');
+    });
+
+    test('does not cache bot checks', async () => {
+      const directory = mkdtempSync(join(tmpdir(), 'deepsrt-client-'));
+      try {
+        const mockAxios = createMockAxios({
+          post: { playabilityStatus: { status: 'LOGIN_REQUIRED', reason: 'Sign in to confirm you\'re not a bot' } }
+        });
+        const client = createClient(mockAxios, new DiskCache(directory));
+
+        await expect(client.listCaptions('dQw4w9WgXcQ')).rejects.toThrow(RateLimitedError);
+        await expect(client.listCaptions('dQw4w9WgXcQ')).rejects.toThrow(RateLimitedError);
+        expect(mockAxios.post).toHaveBeenCalledTimes(2);
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    test('batch entries carry the error code', async () => {
+      const client = createClient(createMockAxios({
+        post: (url: string, body: any) => body.videoId === 'bbbbbbbbbbb'
+          ? { playabilityStatus: { status: 'UNPLAYABLE', reason: 'The uploader has not made this video available in your country' } }
+          : mockVideoInfo
+      }));
+      const { items } = await client.getTranscripts(['aaaaaaaaaaa', 'bbbbbbbbbbb']);
+
+      expect(items[0].errorCode).toBeUndefined();
+      expect(items[1]).toEqual({
+        input: 'bbbbbbbbbbb',
+        error: 'The uploader has not made this video available in your country',
+        errorCode: 'VIDEO_UNAVAILABLE'
+      });
+    });
+  });
+
+  describe('caching', () => {
+    test('serves repeated calls from the disk cache unless refreshed', async () => {
+      const directory = mkdtempSync(join(tmpdir(), 'deepsrt-client-'));
+      try {
+        const mockAxios = createMockAxios({
+          get: (url: string) => url.includes('action=summarize')
+            ? { success: true, summary: 'Cached summary' }
+            : { success: true, result: 'Title' }
+        });
+        const client = createClient(mockAxios, new DiskCache(directory));
+
+        await client.getSummary('dQw4w9WgXcQ', { lang: 'en', mode: 'bullet' });
+        const cached = await client.getSummary('dQw4w9WgXcQ', { lang: 'en', mode: 'bullet' });
+
+        expect(cached.summary).toBe('Cached summary');
+        expect(mockAxios.post).toHaveBeenCalledTimes(1);
+        expect(mockAxios.get).toHaveBeenCalledTimes(2);
+
+        await client.getSummary('dQw4w9WgXcQ', { lang: 'en', mode: 'bullet', refresh: true });
+        expect(mockAxios.post).toHaveBeenCalledTimes(2);
+        expect(mockAxios.get).toHaveBeenCalledTimes(4);
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,758 @@
+/**
+ * DeepSRT Client
+ * Typed core library shared by the MCP server and the CLI. Every method
+ * returns plain data objects; presentation is left to the caller.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { CacheNamespace, DiskCache } from './cache.js';
+import { ChapterMarker, parseDescriptionChapters, toChapters } from './chapters.js';
+import { config } from './config.js';
+import {
+  errorCode,
+  NoCaptionsError,
+  playabilityError,
+  RateLimitedError,
+  toUpstreamError,
+  UpstreamError,
+} from './errors.js';
+import {
+  ANDROID_CLIENT_CONTEXT,
+  buildSearchParams,
+  CHANNEL_VIDEOS_PARAMS,
+  ChannelVideosPage,
+  decodeChannelCursor,
+  encodeChannelCursor,
+  INNERTUBE_BROWSE_URL,
+  INNERTUBE_NEXT_URL,
+  INNERTUBE_RESOLVE_URL,
+  INNERTUBE_SEARCH_URL,
+  parseChannelVideosPage,
+  parseChapterMarkers,
+  parsePlaylistPage,
+  parseSearchPage,
+  WEB_CLIENT_CONTEXT,
+} from './innertube.js';
+import { searchSegments } from './search.js';
+import { resegment } from './segmentation.js';
+import { parseTimedText } from './timedtext.js';
+import type {
+  BatchEntry,
+  BatchOptions,
+  BatchResult,
+  CaptionListResult,
+  CaptionTrack,
+  Chapter,
+  ChapterSource,
+  ChaptersResult,
+  ChannelVideosOptions,
+  ChannelVideosResult,
+  InnerTubeResponse,
+  PlaylistEntry,
+  PlaylistOptions,
+  PlaylistResult,
+  PlaylistVideo,
+  SearchOptions,
+  SearchResult,
+  SearchResultVideo,
+  RequestOptions,
+  SummaryOptions,
+  SummaryResult,
+  SummaryStage,
+  ThumbnailOptions,
+  ThumbnailResult,
+  ThumbnailSize,
+  TranscriptOptions,
+  TranscriptRange,
+  TranscriptResult,
+  TranscriptSearchOptions,
+  TranscriptSearchResult,
+  VideoInfoResult,
+  VideoMetadata,
+} from './types.js';
+import {
+  extractPlaylistId,
+  extractVideoId,
+  formatDuration,
+  mapWithConcurrency,
+  parseChannelInput,
+  parseVideoInput,
+  selectBestCaption,
+  selectTranscriptCaption,
+  sliceSegments,
+} from './utils.js';
+
+const INNERTUBE_PLAYER_URL = 'https://www.youtube.com/youtubei/v1/player';
+const WORKER_USER_AGENT = 'DeepSRT-CLI/1.5.4';
+
+/** Progress messages for each stage of `getSummary`, in order */
+const SUMMARY_STAGES: Record<SummaryStage, string> = {
+  fetching_video_info: 'Fetching video info',
+  selecting_captions: 'Selecting captions',
+  summarizing: 'Summarizing',
+  translating_title: 'Translating title',
+};
+
+/** i.ytimg.com file closest to each configured image size */
+const THUMBNAIL_FILES: Record<ThumbnailSize, string> = {
+  thumbnail: 'mqdefault.jpg',
+  medium: 'sddefault.jpg',
+  large: 'maxresdefault.jpg',
+};
+
+export interface DeepSRTClientOptions {
+  /** Base URL of the DeepSRT worker (default: https://worker.deepsrt.com) */
+  apiBaseUrl?: string;
+  /** Request timeout in milliseconds (default: 30000) */
+  timeout?: number;
+  /** Custom axios instance, mainly useful for testing */
+  axiosInstance?: AxiosInstance;
+  /** Disk cache to use, or `false` to disable caching (default: ~/.cache/deepsrt-mcp) */
+  cache?: DiskCache | false;
+}
+
+export class DeepSRTClient {
+  private axiosInstance: AxiosInstance;
+  private apiBaseUrl: string;
+  private cache: DiskCache | null;
+
+  constructor(options: DeepSRTClientOptions = {}) {
+    this.apiBaseUrl = options.apiBaseUrl || config.api.baseURL;
+    this.axiosInstance = options.axiosInstance || axios.create({
+      timeout: options.timeout ?? 30000,
+    });
+    this.cache = options.cache === false || !config.cache.enabled
+      ? null
+      : options.cache || new DiskCache();
+  }
+
+  /**
+   * Player response of a playable video. Unplayable videos are rejected
+   * with the typed error their `playabilityStatus` describes.
+   */
+  async getVideoInfo(videoId: string, options: RequestOptions = {}): Promise<InnerTubeResponse> {
+    const info = await this.fetchPlayer(videoId, options);
+    const error = playabilityError(info);
+    if (error) {
+      throw error;
+    }
+    return info;
+  }
+
+  /**
+   * Full video metadata from the player response. Unlike the other methods
+   * this works for videos without captions.
+   */
+  async getVideoDetails(videoInput: string, options: RequestOptions = {}): Promise<VideoInfoResult> {
+    const videoId = extractVideoId(videoInput);
+    if (!videoId) {
+      throw new Error('Invalid YouTube URL or video ID');
+    }
+
+    const info = await this.fetchPlayer(videoId, options);
+    const { playabilityStatus, videoDetails, microformat, captions } = info;
+    if (!videoDetails) {
+      throw playabilityError(info) ?? new UpstreamError('Could not fetch video details');
+    }
+
+    const { publishDate, category } = microformat?.playerMicroformatRenderer ?? {};
+
+    return {
+      video: this.toVideoMetadata(videoId, videoDetails),
+      description: videoDetails.shortDescription ?? '',
+      keywords: videoDetails.keywords ?? [],
+      viewCount: parseInt(videoDetails.viewCount ?? '') || 0,
+      thumbnails: videoDetails.thumbnail?.thumbnails ?? [],
+      ...(publishDate && { publishDate }),
+      ...(category && { category }),
+      isLive: Boolean(videoDetails.isLive),
+      isLiveContent: Boolean(videoDetails.isLiveContent),
+      isUpcoming: Boolean(videoDetails.isUpcoming),
+      isPrivate: Boolean(videoDetails.isPrivate),
+      playability: {
+        status: playabilityStatus?.status ?? 'UNKNOWN',
+        ...(playabilityStatus?.reason && { reason: playabilityStatus.reason }),
+      },
+      captions: captions?.playerCaptionsTracklistRenderer?.captionTracks ?? [],
+    };
+  }
+
+  /**
+   * Chapters from InnerTube's chapter markers, or from timestamp lines in
+   * the description. Works for videos without captions.
+   */
+  async getChapters(videoInput: string, options: RequestOptions = {}): Promise<ChaptersResult> {
+    const videoId = extractVideoId(videoInput);
+    if (!videoId) {
+      throw new Error('Invalid YouTube URL or video ID');
+    }
+
+    const info = await this.getVideoInfo(videoId, options);
+    if (!info.videoDetails) {
+      throw new Error('Could not fetch video details');
+    }
+
+    const video = this.toVideoMetadata(videoId, info.videoDetails);
+    return { video, ...(await this.resolveChapters(video, info, options)) };
+  }
+
+  async listCaptions(videoInput: string, options: RequestOptions = {}): Promise<CaptionListResult> {
+    const { video, captions } = await this.loadVideo(videoInput, options);
+    return { video, captions };
+  }
+
+  async getTranscript(videoInput: string, options: TranscriptOptions = {}): Promise<TranscriptResult> {
+    const { video, captions, info } = await this.loadVideo(videoInput, options);
+
+    const selected = selectTranscriptCaption(captions, options.lang);
+    if (!selected) {
+      throw new NoCaptionsError('No suitable captions found');
+    }
+
+    // Fetch transcript content
+    const captionKey = [video.videoId, selected.caption.vssId, selected.translation?.targetLanguageCode || ''].join('_');
+    const timedText = await this.cached('captions', captionKey, async () => {
+      const transcriptResponse = await this.upstream('YouTube captions', options.signal, () =>
+        this.axiosInstance.get(selected.url, { signal: options.signal }));
+      // axios decodes json3 bodies; keep the cached value a string either way
+      const data = transcriptResponse.data;
+      return typeof data === 'string' ? data : JSON.stringify(data);
+    }, options.refresh);
+    const segments = parseTimedText(timedText);
+
+    const range = this.resolveRange(videoInput, options);
+    const chapters = options.groupBy === 'chapter'
+      ? (await this.resolveChapters(video, info, options)).chapters
+      : undefined;
+
+    const segmentation = options.segmentation === 'raw' ? undefined : options.segmentation;
+    const sliced = range ? sliceSegments(segments, range.startSeconds, range.endSeconds) : segments;
+
+    return {
+      video,
+      captions,
+      caption: selected.caption,
+      ...(selected.translation && { translation: selected.translation }),
+      ...(range && { range }),
+      ...(chapters && { chapters }),
+      ...(segmentation && { segmentation }),
+      segments: resegment(sliced, segmentation),
+    };
+  }
+
+  /**
+   * Find the segments of a transcript that match `query`, with context and
+   * a deep link to each hit. Always searches the whole transcript, even when
+   * the URL carries a `t=` offset.
+   */
+  async searchTranscript(videoInput: string, query: string, options: TranscriptSearchOptions = {}): Promise<TranscriptSearchResult> {
+    if (!query.trim()) {
+      throw new Error('Search query is required');
+    }
+
+    const match = options.match || 'words';
+    const context = Math.min(options.context ?? config.transcriptSearch.context, config.transcriptSearch.maxContext);
+    const limit = Math.min(options.limit || config.transcriptSearch.defaultLimit, config.transcriptSearch.maxLimit);
+
+    const { video, caption, translation, segments } = await this.getTranscript(videoInput, {
+      lang: options.lang,
+      start: 0,
+      refresh: options.refresh,
+      signal: options.signal,
+    });
+    const hits = searchSegments(video.videoId, segments, query.trim(), { match, context });
+
+    return {
+      video,
+      caption,
+      ...(translation && { translation }),
+      query: query.trim(),
+      match,
+      totalHits: hits.length,
+      hits: hits.slice(0, limit),
+    };
+  }
+
+  async getSummary(videoInput: string, options: SummaryOptions = {}): Promise<SummaryResult> {
+    const lang = options.lang || config.api.defaults.lang;
+    const mode = options.mode || config.api.defaults.mode;
+    const stages = Object.keys(SUMMARY_STAGES) as SummaryStage[];
+    const report = (stage: SummaryStage) => options.onProgress?.({
+      stage,
+      progress: stages.indexOf(stage),
+      total: stages.length,
+      message: SUMMARY_STAGES[stage],
+    });
+
+    report('fetching_video_info');
+    const { video, captions } = await this.loadVideo(videoInput, options);
+
+    report('selecting_captions');
+    const caption = selectBestCaption(captions);
+    if (!caption) {
+      throw new NoCaptionsError('No suitable captions found');
+    }
+
+    const { translatedTitle, summary } = await this.cached(
+      'summary',
+      [video.videoId, lang, mode].join('_'),
+      () => this.summarize(video, caption, lang, mode, options.signal, report),
+      options.refresh
+    );
+
+    return { video, caption, lang, mode, translatedTitle, summary };
+  }
+
+  /**
+   * Video thumbnail as base64 image data. Not every video has every size,
+   * so a missing image is replaced by the configured fallback.
+   */
+  async getThumbnail(videoInput: string, options: ThumbnailOptions = {}): Promise<ThumbnailResult> {
+    const videoId = extractVideoId(videoInput);
+    if (!videoId) {
+      throw new Error('Invalid YouTube URL or video ID');
+    }
+
+    const size = options.size || 'medium';
+    const load = async (): Promise<ThumbnailResult> => {
+      const url = `https://i.ytimg.com/vi/${videoId}/${THUMBNAIL_FILES[size]}`;
+      const image = await this.fetchImage(url, options.signal).catch(() => null);
+      if (image) {
+        return { videoId, size, url, ...image, fallback: false };
+      }
+
+      const fallbackUrl = config.images.fallback[size];
+      return { videoId, size, url: fallbackUrl, ...(await this.fetchImage(fallbackUrl, options.signal)), fallback: true };
+    };
+
+    return config.images.cache.enabled
+      ? this.cached('thumbnail', `${videoId}_${size}`, load, options.refresh)
+      : load();
+  }
+
+  /**
+   * Search YouTube for videos, in YouTube's ranking order
+   */
+  async searchVideos(query: string, options: SearchOptions = {}): Promise<SearchResult> {
+    if (!query.trim()) {
+      throw new Error('Search query is required');
+    }
+
+    const limit = Math.min(options.limit ?? config.search.defaultLimit, config.search.maxLimit);
+    const filters = {
+      ...(options.duration && { duration: options.duration }),
+      ...(options.uploadDate && { uploadDate: options.uploadDate }),
+    };
+
+    return this.cached(
+      'search',
+      [query.trim(), options.duration || '', options.uploadDate || '', limit].join('_'),
+      async () => ({ query: query.trim(), filters, videos: await this.fetchSearchResults(query.trim(), filters, limit, options.signal) }),
+      options.refresh
+    );
+  }
+
+  /**
+   * Resolve a playlist into its ordered videos. With `include`, each video's
+   * transcript or summary is fetched too; a failing video gets an `error`
+   * instead of failing the whole playlist.
+   */
+  async getPlaylist(playlistInput: string, options: PlaylistOptions = {}): Promise<PlaylistResult> {
+    const playlistId = extractPlaylistId(playlistInput);
+    if (!playlistId) {
+      throw new Error('Invalid YouTube playlist URL or ID');
+    }
+
+    const limit = Math.min(options.limit ?? config.playlist.defaultLimit, config.playlist.maxLimit);
+    const playlist = await this.cached(
+      'playlist',
+      [playlistId, limit].join('_'),
+      () => this.fetchPlaylist(playlistId, limit, options.signal),
+      options.refresh
+    );
+
+    const { include } = options;
+    if (!include) {
+      return playlist;
+    }
+
+    const concurrency = Math.min(options.concurrency ?? config.playlist.concurrency, config.playlist.maxConcurrency);
+    const { lang, mode, refresh, signal } = options;
+    const fetched = await this.fetchEach(playlist.videos, concurrency, signal, async video => include === 'transcript'
+      ? { transcript: await this.getTranscript(video.videoId, { lang, refresh, signal }) }
+      : { summary: await this.getSummary(video.videoId, { lang, mode, refresh, signal }) });
+    const videos = playlist.videos.map((video, index): PlaylistEntry => ({ ...video, ...fetched[index] }));
+
+    return { ...playlist, include, videos };
+  }
+
+  /**
+   * Summaries of several videos, in input order. A failing video gets an
+   * `error` instead of failing the whole batch.
+   */
+  async getSummaries(videoInputs: string[], options: Omit<SummaryOptions, 'onProgress'> & BatchOptions = {}): Promise<BatchResult> {
+    const { concurrency, ...summaryOptions } = options;
+    return this.fetchBatch('summary', videoInputs, concurrency, options.signal, async input => ({
+      summary: await this.getSummary(input, summaryOptions),
+    }));
+  }
+
+  /**
+   * Transcripts of several videos, in input order. A failing video gets an
+   * `error` instead of failing the whole batch.
+   */
+  async getTranscripts(videoInputs: string[], options: TranscriptOptions & BatchOptions = {}): Promise<BatchResult> {
+    const { concurrency, ...transcriptOptions } = options;
+    return this.fetchBatch('transcript', videoInputs, concurrency, options.signal, async input => ({
+      transcript: await this.getTranscript(input, transcriptOptions),
+    }));
+  }
+
+  private async fetchBatch(
+    include: BatchResult['include'],
+    videoInputs: string[],
+    concurrency: number | undefined,
+    signal: AbortSignal | undefined,
+    fetch: (input: string) => Promise<Pick<BatchEntry, 'transcript' | 'summary'>>
+  ): Promise<BatchResult> {
+    if (videoInputs.length === 0) {
+      throw new Error('At least one video is required');
+    }
+    if (videoInputs.length > config.batch.maxItems) {
+      throw new Error(`Too many videos: ${videoInputs.length} (max ${config.batch.maxItems})`);
+    }
+
+    const limit = Math.min(concurrency ?? config.batch.concurrency, config.batch.maxConcurrency);
+    const fetched = await this.fetchEach(videoInputs, limit, signal, fetch);
+
+    return { include, items: videoInputs.map((input, index) => ({ input, ...fetched[index] })) };
+  }
+
+  /**
+   * Run `fetch` for every item with bounded concurrency, in input order. A
+   * failing item gets an `error` instead; a cancelled job fails as a whole.
+   */
+  private async fetchEach<T, R extends object>(
+    items: T[],
+    concurrency: number,
+    signal: AbortSignal | undefined,
+    fetch: (item: T) => Promise<R>
+  ): Promise<Array<R | { error: string; errorCode?: string }>> {
+    return mapWithConcurrency(items, concurrency, async item => {
+      try {
+        return await fetch(item);
+      } catch (error) {
+        signal?.throwIfAborted();
+        const code = errorCode(error);
+        return { error: error instanceof Error ? error.message : String(error), ...(code && { errorCode: code }) };
+      }
+    }, signal);
+  }
+
+  /**
+   * Most recent uploads of a channel, one InnerTube page (about 30 videos)
+   * per call. Pass `nextCursor` back as `cursor` for older uploads.
+   */
+  async getChannelVideos(channelInput: string, options: ChannelVideosOptions = {}): Promise<ChannelVideosResult> {
+    const channel = parseChannelInput(channelInput);
+    if (!channel) {
+      throw new Error('Invalid YouTube channel ID, handle or URL');
+    }
+
+    if (options.cursor) {
+      const state = decodeChannelCursor(options.cursor);
+      if (!state) {
+        throw new Error('Invalid cursor');
+      }
+      if ('channelId' in channel && channel.channelId !== state.channelId) {
+        throw new Error('Cursor does not belong to this channel');
+      }
+      const page = parseChannelVideosPage(await this.browse({ continuation: state.token }, options.signal));
+      return this.toChannelVideosResult(state.channelId, state.title, page);
+    }
+
+    const channelId = 'channelId' in channel
+      ? channel.channelId
+      : await this.cached('channel', channel.url, () => this.resolveChannelUrl(channel.url, options.signal), options.refresh);
+
+    return this.cached('channelVideos', channelId, async () => {
+      const page = parseChannelVideosPage(await this.browse({ browseId: channelId, params: CHANNEL_VIDEOS_PARAMS }, options.signal));
+      return this.toChannelVideosResult(channelId, page.title || channelId, page);
+    }, options.refresh);
+  }
+
+  private async resolveChannelUrl(url: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.upstream('YouTube', signal, () => this.axiosInstance.post(INNERTUBE_RESOLVE_URL, {
+      context: WEB_CLIENT_CONTEXT,
+      url
+    }, { signal }));
+
+    const browseId = response.data?.endpoint?.browseEndpoint?.browseId;
+    if (typeof browseId !== 'string' || !browseId.startsWith('UC')) {
+      throw new Error('Channel not found');
+    }
+
+    return browseId;
+  }
+
+  private toChannelVideosResult(channelId: string, title: string, page: ChannelVideosPage): ChannelVideosResult {
+    return {
+      channelId,
+      title,
+      videos: page.videos,
+      ...(page.continuation && { nextCursor: encodeChannelCursor(channelId, title, page.continuation) }),
+    };
+  }
+
+  private async fetchSearchResults(
+    query: string,
+    filters: SearchResult['filters'],
+    limit: number,
+    signal?: AbortSignal
+  ): Promise<SearchResultVideo[]> {
+    const search = async (params: { query: string; params: string } | { continuation: string }) => {
+      const response = await this.upstream('YouTube search', signal, () => this.axiosInstance.post(INNERTUBE_SEARCH_URL, {
+        context: ANDROID_CLIENT_CONTEXT,
+        ...params
+      }, { signal }));
+      return parseSearchPage(response.data);
+    };
+
+    let page = await search({ query, params: buildSearchParams(filters) });
+    const videos: SearchResultVideo[] = [];
+
+    while (true) {
+      page.videos
+        .filter(video => !videos.some(existing => existing.videoId === video.videoId))
+        .forEach(video => videos.push({ rank: videos.length + 1, ...video }));
+      if (videos.length >= limit || !page.continuation || page.videos.length === 0) {
+        break;
+      }
+      page = await search({ continuation: page.continuation });
+    }
+
+    return videos.slice(0, limit);
+  }
+
+  private async fetchPlaylist(playlistId: string, limit: number, signal?: AbortSignal): Promise<PlaylistResult> {
+    let page = parsePlaylistPage(await this.browse({ browseId: `VL${playlistId}` }, signal));
+    const title = page.title || playlistId;
+    const videos: PlaylistVideo[] = [];
+
+    while (true) {
+      page.videos.forEach(video => videos.push({ index: videos.length + 1, ...video }));
+      if (videos.length >= limit || !page.continuation || page.videos.length === 0) {
+        break;
+      }
+      page = parsePlaylistPage(await this.browse({ continuation: page.continuation }, signal));
+    }
+
+    if (videos.length === 0) {
+      throw new Error('Playlist not found or has no videos');
+    }
+
+    return { playlistId, title, videos: videos.slice(0, limit) };
+  }
+
+  private async browse(params: { browseId: string; params?: string } | { continuation: string }, signal?: AbortSignal): Promise<any> {
+    const response = await this.upstream('YouTube', signal, () => this.axiosInstance.post(INNERTUBE_BROWSE_URL, {
+      context: WEB_CLIENT_CONTEXT,
+      ...params
+    }, { signal }));
+
+    return response.data;
+  }
+
+  private async fetchImage(url: string, signal?: AbortSignal): Promise<{ mimeType: string; data: string }> {
+    const response = await this.upstream('YouTube thumbnail', signal, () =>
+      this.axiosInstance.get(url, { responseType: 'arraybuffer', signal }));
+    const contentType = String(response.headers?.['content-type'] ?? '').split(';')[0].trim();
+    const extension = contentType.startsWith('image/')
+      ? contentType.slice('image/'.length)
+      : url.split('?')[0].split('.').pop()?.toLowerCase() ?? '';
+
+    if (!config.images.supportedTypes.includes(extension)) {
+      throw new UpstreamError(`Unsupported image type: ${contentType || extension}`);
+    }
+
+    return {
+      mimeType: extension === 'jpg' ? 'image/jpeg' : `image/${extension}`,
+      data: Buffer.from(response.data).toString('base64'),
+    };
+  }
+
+  private async summarize(
+    video: VideoMetadata,
+    caption: CaptionTrack,
+    lang: string,
+    mode: string,
+    signal?: AbortSignal,
+    report: (stage: SummaryStage) => void = () => {}
+  ): Promise<{ translatedTitle: string; summary: string }> {
+    // The worker reads the caption track from the caption URL's query string
+    const transcriptArg = new URL(caption.baseUrl).search.slice(1);
+
+    const summaryParams = new URLSearchParams({
+      v: video.videoId,
+      action: 'summarize',
+      lang: lang,
+      mode: mode
+    });
+
+    const titleParams = new URLSearchParams({
+      v: video.videoId,
+      txt: video.title,
+      action: 'translate',
+      lang: lang,
+      mode: mode
+    });
+
+    // Both calls run at once; the title is what remains once the summary is in
+    report('summarizing');
+    const [summaryData, titleData] = await Promise.all([
+      this.callWorker(summaryParams, transcriptArg, signal).then(data => {
+        report('translating_title');
+        return data;
+      }),
+      this.callWorker(titleParams, transcriptArg, signal)
+    ]);
+
+    const translatedTitle = titleData.success ?
+      (titleData.result || titleData.translation || video.title) : video.title;
+
+    const summary = summaryData.summary || summaryData.result || summaryData.content;
+    if (!summary) {
+      throw new UpstreamError(summaryData.error || 'No summary generated');
+    }
+
+    return { translatedTitle, summary };
+  }
+
+  private async resolveChapters(
+    video: VideoMetadata,
+    info: InnerTubeResponse,
+    { refresh, signal }: RequestOptions
+  ): Promise<{ source?: ChapterSource; chapters: Chapter[] }> {
+    // Chapter data is optional; a failed `next` call falls back to the description
+    const markers = await this.cached('chapters', video.videoId, () => this.fetchChapterMarkers(video.videoId, signal), refresh)
+      .catch((): ChapterMarker[] => {
+        signal?.throwIfAborted();
+        return [];
+      });
+    if (markers.length > 0) {
+      return { source: 'innertube', chapters: toChapters(markers, video.lengthSeconds) };
+    }
+
+    const described = parseDescriptionChapters(info.videoDetails?.shortDescription ?? '');
+    return described.length > 0
+      ? { source: 'description', chapters: toChapters(described, video.lengthSeconds) }
+      : { chapters: [] };
+  }
+
+  private async fetchChapterMarkers(videoId: string, signal?: AbortSignal): Promise<ChapterMarker[]> {
+    const response = await this.upstream('YouTube', signal, () => this.axiosInstance.post(INNERTUBE_NEXT_URL, {
+      context: WEB_CLIENT_CONTEXT,
+      videoId
+    }, { signal }));
+
+    return parseChapterMarkers(response.data);
+  }
+
+  private resolveRange(videoInput: string, options: TranscriptOptions): TranscriptRange | undefined {
+    const startSeconds = options.start ?? parseVideoInput(videoInput)?.startSeconds;
+    if (startSeconds === undefined && options.end === undefined) {
+      return undefined;
+    }
+
+    if (options.end !== undefined && options.end <= (startSeconds ?? 0)) {
+      throw new Error('Transcript end time must be after the start time');
+    }
+
+    return {
+      startSeconds: startSeconds ?? 0,
+      ...(options.end !== undefined && { endSeconds: options.end }),
+    };
+  }
+
+  private async loadVideo(
+    videoInput: string,
+    options: RequestOptions = {}
+  ): Promise<{ video: VideoMetadata; captions: CaptionTrack[]; info: InnerTubeResponse }> {
+    // Extract video ID from URL or use directly
+    const videoId = extractVideoId(videoInput);
+    if (!videoId) {
+      throw new Error('Invalid YouTube URL or video ID');
+    }
+
+    const videoInfo = await this.getVideoInfo(videoId, options);
+    if (!videoInfo.videoDetails) {
+      throw new UpstreamError('Could not fetch video details');
+    }
+
+    const video = this.toVideoMetadata(videoId, videoInfo.videoDetails);
+
+    const captions = videoInfo.captions?.playerCaptionsTracklistRenderer?.captionTracks;
+    if (!captions || captions.length === 0) {
+      throw new NoCaptionsError();
+    }
+
+    return { video, captions, info: videoInfo };
+  }
+
+  private toVideoMetadata(videoId: string, details: NonNullable<InnerTubeResponse['videoDetails']>): VideoMetadata {
+    const seconds = parseInt(details.lengthSeconds) || 0;
+    return {
+      videoId,
+      title: details.title,
+      author: details.author,
+      channelId: details.channelId,
+      lengthSeconds: seconds,
+      duration: formatDuration(seconds),
+    };
+  }
+
+  /**
+   * Raw player response, whatever its playability. A bot check is thrown
+   * rather than cached, since it says nothing about the video.
+   */
+  private async fetchPlayer(videoId: string, options: RequestOptions): Promise<InnerTubeResponse> {
+    return this.cached('videoInfo', videoId, async () => {
+      const response = await this.upstream('YouTube player', options.signal, () => this.axiosInstance.post(INNERTUBE_PLAYER_URL, {
+        context: ANDROID_CLIENT_CONTEXT,
+        videoId: videoId
+      }, { signal: options.signal }));
+
+      const error = playabilityError(response.data);
+      if (error instanceof RateLimitedError) {
+        throw error;
+      }
+      return response.data;
+    }, options.refresh);
+  }
+
+  /** Run an HTTP call, turning its failure into a typed error */
+  private async upstream<T>(service: string, signal: AbortSignal | undefined, request: () => Promise<T>): Promise<T> {
+    try {
+      return await request();
+    } catch (error) {
+      throw toUpstreamError(error, service, signal);
+    }
+  }
+
+  private async cached<T>(namespace: CacheNamespace, key: string, load: () => Promise<T>, refresh?: boolean): Promise<T> {
+    return this.cache ? this.cache.wrap(namespace, key, load, refresh) : load();
+  }
+
+  private async callWorker(params: URLSearchParams, transcriptArg: string, signal?: AbortSignal): Promise<any> {
+    const response = await this.upstream('DeepSRT worker', signal, () => this.axiosInstance.get(`${this.apiBaseUrl}/transcript2?${params}`, {
+      headers: {
+        'Accept': 'application/json',
+        'X-Transcript-Arg': transcriptArg,
+        'User-Agent': WORKER_USER_AGENT
+      },
+      signal
+    }));
+
+    return response.data;
+  }
+}
@@ -13,6 +13,66 @@ export const config = {
       mode: 'narrative' as const,
     },
   },
+  cache: {
+    enabled: true,
+    directoryName: 'deepsrt-mcp', // under ~/.cache unless DEEPSRT_CACHE_DIR is set
+    ttl: {
+      videoInfo: 3600, // 1 hour; caption URLs in the player response expire
+      captions: 86400, // 1 day
+      summary: 604800, // 1 week
+      playlist: 3600, // 1 hour
+      channel: 604800, // 1 week; handle to channel ID
+      channelVideos: 900, // 15 minutes; first page of uploads
+      search: 3600, // 1 hour
+      chapters: 86400, // 1 day
+      thumbnail: 3600 // 1 hour
+    }
+  },
+  search: {
+    defaultLimit: 20,
+    maxLimit: 100
+  },
+  segmentation: {
+    sentence: {
+      maxChars: 300,
+      pauseMs: 1500 // silence that ends a sentence in unpunctuated text
+    },
+    paragraph: {
+      maxChars: 1200,
+      pauseMs: 3000
+    }
+  },
+  http: {
+    host: '127.0.0.1', // pass --host=0.0.0.0 to serve other machines
+    port: 3000,
+    maxBodyBytes: 4 * 1024 * 1024,
+    maxSessions: 100,
+    sessionIdleMs: 30 * 60 * 1000, // sessions without a request for this long are closed
+    allowedOrigins: [] as string[] // browser origins allowed besides localhost, e.g. 'https://app.example.com'
+  },
+  resources: {
+    maxRecent: 50 // videos listed under resources/list
+  },
+  transcriptSearch: {
+    context: 2,
+    maxContext: 10,
+    defaultLimit: 20,
+    maxLimit: 200,
+    // Regex queries run synchronously in a process shared by every session
+    maxPatternLength: 200,
+    maxRegexTextChars: 500_000
+  },
+  playlist: {
+    defaultLimit: 100,
+    maxLimit: 1000,
+    concurrency: 3,
+    maxConcurrency: 10
+  },
+  batch: {
+    maxItems: 50,
+    concurrency: 3,
+    maxConcurrency: 10
+  },
   images: {
     sizes: {
       thumbnail: { width: 320, height: 180 },
@@ -21,8 +81,7 @@ export const config = {
     },
     supportedTypes: ['jpg', 'jpeg', 'png', 'webp', 'gif'],
     cache: {
-      enabled: true,
-      ttl: 3600 // 1 hour in seconds
+      enabled: true // TTL is cache.ttl.thumbnail
     },
     fallback: {
       thumbnail: 'https://via.placeholder.com/320x180',
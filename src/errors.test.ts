@@ -0,0 +1,95 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  DeepSRTError,
+  errorCode,
+  exitCodeFor,
+  EXIT_CODES,
+  NoCaptionsError,
+  playabilityError,
+  toUpstreamError,
+  UpstreamError
+} from './errors.js';
+import type { InnerTubeResponse } from './types.js';
+
+const player = (status: string, reason?: string, videoDetails?: Partial<InnerTubeResponse['videoDetails']>) =>
+  ({ playabilityStatus: { status, reason }, videoDetails } as InnerTubeResponse);
+
+describe('playabilityError', () => {
+  test('accepts playable videos', () => {
+    expect(playabilityError(player('OK'))).toBeNull();
+    expect(playabilityError({} as InnerTubeResponse)).toBeNull();
+  });
+
+  test.each([
+    ['ERROR', 'This video has been removed by the uploader', 'VIDEO_UNAVAILABLE'],
+    ['UNPLAYABLE', 'Video unavailable', 'VIDEO_UNAVAILABLE'],
+    ['LOGIN_REQUIRED', 'This video is private', 'LOGIN_REQUIRED'],
+    ['LOGIN_REQUIRED', 'Sign in to confirm your age', 'AGE_RESTRICTED'],
+    ['AGE_VERIFICATION_REQUIRED', undefined, 'AGE_RESTRICTED'],
+    ['UNPLAYABLE', 'This video may be inappropriate for some users.', 'AGE_RESTRICTED'],
+    ['LIVE_STREAM_OFFLINE', 'This live event will begin in a few moments.', 'LIVE_NOT_SUPPORTED'],
+    ['LOGIN_REQUIRED', 'Sign in to confirm you’re not a bot', 'RATE_LIMITED'],
+    ['ERROR', 'Our systems have detected unusual traffic from your computer network', 'RATE_LIMITED']
+  ])('maps %s "%s" to %s', (status, reason, code) => {
+    const error = playabilityError(player(status, reason));
+
+    expect(error?.code).toBe(code);
+    if (reason) {
+      expect(error?.message).toBe(reason);
+    }
+  });
+
+  test('rejects playable live streams and premieres', () => {
+    expect(playabilityError(player('OK', undefined, { isLive: true }))?.code).toBe('LIVE_NOT_SUPPORTED');
+    expect(playabilityError(player('OK', undefined, { isUpcoming: true }))?.code).toBe('LIVE_NOT_SUPPORTED');
+  });
+});
+
+describe('toUpstreamError', () => {
+  const httpError = (status: number) => Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    response: { status }
+  });
+
+  test('maps 429 to RateLimited and other failures to UpstreamError', () => {
+    expect(toUpstreamError(httpError(429), 'YouTube')).toMatchObject({ code: 'RATE_LIMITED' });
+
+    const failed = toUpstreamError(httpError(500), 'DeepSRT worker');
+    expect(failed).toBeInstanceOf(UpstreamError);
+    expect((failed as Error).message).toBe('DeepSRT worker request failed: Request failed with status code 500');
+    expect((failed as Error).cause).toBeInstanceOf(Error);
+  });
+
+  test('does not read a status from errors other than axios errors', () => {
+    const error = Object.assign(new Error('boom'), { response: { status: 429 } });
+    expect(toUpstreamError(error, 'YouTube')).toBeInstanceOf(UpstreamError);
+  });
+
+  test('passes typed errors and aborts through', () => {
+    const typed = new NoCaptionsError();
+    const aborted = new DOMException('The operation was aborted.', 'AbortError');
+
+    expect(toUpstreamError(typed, 'YouTube')).toBe(typed);
+    expect(toUpstreamError(aborted, 'YouTube', AbortSignal.abort())).toBe(aborted);
+  });
+});
+
+describe('codes', () => {
+  test('every kind has a distinct exit code above the generic 1', () => {
+    const codes = Object.values(EXIT_CODES);
+
+    expect(new Set(codes).size).toBe(codes.length);
+    expect(Math.min(...codes)).toBeGreaterThan(1);
+  });
+
+  test('untyped errors fall back to no code and exit code 1', () => {
+    const typed = new NoCaptionsError();
+
+    expect(typed).toBeInstanceOf(DeepSRTError);
+    expect(typed.name).toBe('NoCaptionsError');
+    expect(errorCode(typed)).toBe('NO_CAPTIONS');
+    expect(exitCodeFor(typed)).toBe(7);
+    expect(errorCode(new Error('boom'))).toBeUndefined();
+    expect(exitCodeFor('boom')).toBe(1);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Typed failures
+ * Each kind has a stable code for tool results and its own CLI exit code, so
+ * agents and scripts can tell a private video from a rate limit without
+ * parsing messages. Player responses are classified by `playabilityStatus`.
+ */
+
+import axios from 'axios';
+import type { InnerTubeResponse } from './types.js';
+
+export type DeepSRTErrorKind =
+  | 'VideoUnavailable'
+  | 'LoginRequired'
+  | 'AgeRestricted'
+  | 'LiveNotSupported'
+  | 'NoCaptions'
+  | 'RateLimited'
+  | 'UpstreamError';
+
+export const ERROR_CODES: Record<DeepSRTErrorKind, string> = {
+  VideoUnavailable: 'VIDEO_UNAVAILABLE',
+  LoginRequired: 'LOGIN_REQUIRED',
+  AgeRestricted: 'AGE_RESTRICTED',
+  LiveNotSupported: 'LIVE_NOT_SUPPORTED',
+  NoCaptions: 'NO_CAPTIONS',
+  RateLimited: 'RATE_LIMITED',
+  UpstreamError: 'UPSTREAM_ERROR',
+};
+
+/** 1 stays the exit code for everything else, such as invalid input */
+export const EXIT_CODES: Record<DeepSRTErrorKind, number> = {
+  VideoUnavailable: 3,
+  LoginRequired: 4,
+  AgeRestricted: 5,
+  LiveNotSupported: 6,
+  NoCaptions: 7,
+  RateLimited: 8,
+  UpstreamError: 9,
+};
+
+export class DeepSRTError extends Error {
+  readonly kind: DeepSRTErrorKind;
+  readonly code: string;
+  readonly exitCode: number;
+
+  constructor(kind: DeepSRTErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = kind.endsWith('Error') ? kind : `${kind}Error`;
+    this.kind = kind;
+    this.code = ERROR_CODES[kind];
+    this.exitCode = EXIT_CODES[kind];
+  }
+}
+
+/** Removed, private-by-owner, region-blocked or otherwise unplayable */
+export class VideoUnavailableError extends DeepSRTError {
+  constructor(message = 'Video unavailable') {
+    super('VideoUnavailable', message);
+  }
+}
+
+/** Private or members-only videos that need a signed-in viewer */
+export class LoginRequiredError extends DeepSRTError {
+  constructor(message = 'This video requires signing in') {
+    super('LoginRequired', message);
+  }
+}
+
+export class AgeRestrictedError extends DeepSRTError {
+  constructor(message = 'This video is age-restricted') {
+    super('AgeRestricted', message);
+  }
+}
+
+/** Live streams and premieres have no captions until they have ended */
+export class LiveNotSupportedError extends DeepSRTError {
+  constructor(message = 'Live streams and premieres are not supported until they have ended') {
+    super('LiveNotSupported', message);
+  }
+}
+
+export class NoCaptionsError extends DeepSRTError {
+  constructor(message = 'No captions available for this video') {
+    super('NoCaptions', message);
+  }
+}
+
+/** HTTP 429 or YouTube's "confirm you're not a bot" check; worth retrying later */
+export class RateLimitedError extends DeepSRTError {
+  constructor(message = 'Rate limited by YouTube; try again later', options?: { cause?: unknown }) {
+    super('RateLimited', message, options);
+  }
+}
+
+/** Network failures and unexpected responses from YouTube or the DeepSRT worker */
+export class UpstreamError extends DeepSRTError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('UpstreamError', message, options);
+  }
+}
+
+/**
+ * The failure a player response describes, or null when the video can be
+ * transcribed. Statuses seen in the wild: OK, LOGIN_REQUIRED, UNPLAYABLE,
+ * ERROR, LIVE_STREAM_OFFLINE, AGE_VERIFICATION_REQUIRED and AGE_CHECK_REQUIRED.
+ */
+export function playabilityError({ playabilityStatus, videoDetails }: InnerTubeResponse): DeepSRTError | null {
+  const status = playabilityStatus?.status ?? 'OK';
+  const reason = playabilityStatus?.reason || undefined;
+
+  if (status === 'OK') {
+    return videoDetails?.isLive || videoDetails?.isUpcoming ? new LiveNotSupportedError() : null;
+  }
+
+  if (/not a bot|unusual traffic/i.test(reason ?? '')) {
+    return new RateLimitedError(reason);
+  }
+  if (status.startsWith('AGE_') || /confirm your age|age-restricted|inappropriate for some users/i.test(reason ?? '')) {
+    return new AgeRestrictedError(reason);
+  }
+  if (status.startsWith('LIVE_STREAM')) {
+    return new LiveNotSupportedError(reason);
+  }
+  if (status === 'LOGIN_REQUIRED') {
+    return new LoginRequiredError(reason);
+  }
+
+  return new VideoUnavailableError(reason);
+}
+
+/**
+ * Classify a failed HTTP call. Typed errors and aborts pass through
+ * unchanged; a 429 becomes RateLimited and anything else UpstreamError.
+ */
+export function toUpstreamError(error: unknown, service: string, signal?: AbortSignal): unknown {
+  if (error instanceof DeepSRTError || signal?.aborted) {
+    return error;
+  }
+
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 429) {
+    return new RateLimitedError(`${service} rate limited the request; try again later`, { cause: error });
+  }
+
+  return new UpstreamError(`${service} request failed: ${message}`, { cause: error });
+}
+
+/** `code` of a typed error, for tool results and batch entries */
+export function errorCode(error: unknown): string | undefined {
+  return error instanceof DeepSRTError ? error.code : undefined;
+}
+
+export function exitCodeFor(error: unknown): number {
+  return error instanceof DeepSRTError ? error.exitCode : 1;
+}
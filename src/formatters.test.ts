@@ -0,0 +1,348 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  formatBatchMarkdown,
+  formatCaptionListMarkdown,
+  formatPlaylistMarkdown,
+  formatSummaryMarkdown,
+  formatThumbnailMarkdown,
+  formatTranscript,
+  formatTranscriptSearchMarkdown,
+  formatVideoInfoMarkdown,
+  isTranscriptFormat,
+  toBatchPayload,
+  toCaptionListPayload,
+  toPlaylistPayload,
+  toSummaryPayload,
+  toThumbnailPayload,
+  toVideoInfoPayload,
+} from './formatters.js';
+import type { BatchResult, PlaylistResult, SummaryResult, ThumbnailResult, TranscriptResult, TranscriptSearchResult, VideoInfoResult } from './types.js';
+
+const mockResult: TranscriptResult = {
+  video: {
+    videoId: 'dQw4w9WgXcQ',
+    title: 'Test Video',
+    author: 'Test Author',
+    channelId: 'UC123',
+    lengthSeconds: 3725,
+    duration: '62:05'
+  },
+  captions: [],
+  caption: {
+    baseUrl: 'https://www.youtube.com/api/timedtext?v=dQw4w9WgXcQ&lang=en',
+    name: { simpleText: 'English' },
+    vssId: '.en',
+    languageCode: 'en',
+    isTranslatable: true
+  },
+  segments: [
+    { timestamp: '[00:01]', startMs: 1634, durationMs: 3360, text: 'Hello world' },
+    { timestamp: '[00:04]', startMs: 4000, durationMs: 1500, text: 'Second line' },
+    { timestamp: '[01:02:01]', startMs: 3721005, durationMs: 2000, text: 'Past the hour' }
+  ]
+};
+
+describe('Transcript formatters', () => {
+  test('recognises supported formats', () => {
+    expect(isTranscriptFormat('srt')).toBe(true);
+    expect(isTranscriptFormat('vtt')).toBe(true);
+    expect(isTranscriptFormat('docx')).toBe(false);
+    expect(isTranscriptFormat(undefined)).toBe(false);
+  });
+
+  test('markdown keeps the header and timestamped lines', () => {
+    const output = formatTranscript(mockResult);
+
+    expect(output).toContain('# Test Video');
+    expect(output).toContain('**Captions:** English (manual)');
+    expect(output).toContain('[00:01] Hello world\n[00:04] Second line');
+  });
+
+  test('markdown and json flag machine-translated transcripts', () => {
+    const translated = { ...mockResult, translation: { sourceLanguageCode: 'en', targetLanguageCode: 'ja' } };
+
+    expect(formatTranscript(translated)).toContain('**Captions:** English (manual, machine-translated from en to ja)');
+    expect(JSON.parse(formatTranscript(translated, 'json')).translation).toEqual({
+      sourceLanguageCode: 'en',
+      targetLanguageCode: 'ja',
+      machineTranslated: true
+    });
+  });
+
+  test('markdown links timestamps to the video when asked', () => {
+    const output = formatTranscript(mockResult, 'markdown', { links: true });
+
+    expect(output).toContain('[[00:01]](https://youtu.be/dQw4w9WgXcQ?t=1) Hello world');
+    expect(output).toContain('[[01:02:01]](https://youtu.be/dQw4w9WgXcQ?t=3721) Past the hour');
+    expect(formatTranscript(mockResult, 'txt', { links: true })).not.toContain('youtu.be');
+  });
+
+  test('markdown groups segments under chapter headings', () => {
+    const output = formatTranscript({
+      ...mockResult,
+      chapters: [
+        { title: 'Opening', startSeconds: 0, endSeconds: 4 },
+        { title: 'Main part', startSeconds: 4, endSeconds: 3725 }
+      ]
+    });
+
+    expect(output).toContain('**Chapters:** 2');
+    expect(output).toContain('### Opening (00:00 – 00:04)\n\n[00:01] Hello world\n\n### Main part (00:04 – 01:02:05)\n\n[00:04] Second line\n[01:02:01] Past the hour');
+    expect(formatTranscript({ ...mockResult, chapters: [] })).toContain('**Chapters:** none found');
+  });
+
+  test('markdown range labels count hours like segment timestamps', () => {
+    expect(formatTranscript({ ...mockResult, range: { startSeconds: 4503, endSeconds: 4560 } })).toContain('**Range:** 01:15:03 – 01:16:00');
+    expect(formatTranscript({ ...mockResult, range: { startSeconds: 90 } })).toContain('**Range:** from 01:30');
+  });
+
+  test('srt emits numbered cues with comma milliseconds', () => {
+    const output = formatTranscript(mockResult, 'srt');
+
+    expect(output).toBe(`1
+00:00:01,634 --> 00:00:04,000
+Hello world
+
+2
+00:00:04,000 --> 00:00:05,500
+Second line
+
+3
+01:02:01,005 --> 01:02:03,005
+Past the hour
+`);
+  });
+
+  test('vtt emits a WEBVTT header and dot milliseconds', () => {
+    const output = formatTranscript(mockResult, 'vtt');
+
+    expect(output.startsWith('WEBVTT\n\n00:00:01.634 --> 00:00:04.000\nHello world\n')).toBe(true);
+    expect(output).toContain('01:02:01.005 --> 01:02:03.005\nPast the hour');
+  });
+
+  test('json includes video, caption and timed segments', () => {
+    const output = JSON.parse(formatTranscript(mockResult, 'json'));
+
+    expect(output.video.title).toBe('Test Video');
+    expect(output.caption).toEqual({
+      languageCode: 'en',
+      name: 'English',
+      kind: 'manual',
+      vssId: '.en',
+      isTranslatable: true
+    });
+    expect(output.segments[0]).toEqual({ startMs: 1634, durationMs: 3360, text: 'Hello world' });
+  });
+
+  test('txt emits plain text lines', () => {
+    expect(formatTranscript(mockResult, 'txt')).toBe('Hello world\nSecond line\nPast the hour');
+  });
+
+  describe('summary', () => {
+    const summaryResult: SummaryResult = {
+      video: mockResult.video,
+      caption: mockResult.caption,
+      lang: 'zh-tw',
+      mode: 'bullet',
+      translatedTitle: '測試影片',
+      summary: '- Point one'
+    };
+
+    test('markdown uses the translated title', () => {
+      const output = formatSummaryMarkdown(summaryResult);
+
+      expect(output).toContain('# 測試影片');
+      expect(output).toContain('**Mode:** bullet');
+      expect(output).toContain('## Summary\n\n- Point one');
+    });
+
+    test('payload exposes raw and translated title', () => {
+      const payload = toSummaryPayload(summaryResult);
+
+      expect(payload.title).toEqual({ original: 'Test Video', translated: '測試影片' });
+      expect(payload.caption.kind).toBe('manual');
+      expect(payload.summary).toBe('- Point one');
+    });
+
+    test('batch markdown and payload keep input order and per-video errors', () => {
+      const batch: BatchResult = {
+        include: 'summary',
+        items: [
+          { input: 'https://youtu.be/dQw4w9WgXcQ', summary: summaryResult },
+          { input: 'private0001', error: 'No captions available for this video' }
+        ]
+      };
+      const output = formatBatchMarkdown(batch);
+      const payload = toBatchPayload(batch);
+
+      expect(output).toContain('# Batch Summaries');
+      expect(output).toContain('**Videos:** 2 (1 fetched, 1 failed)');
+      expect(output).toContain('## 1. 測試影片\n\n**Video ID:** dQw4w9WgXcQ  \n**Duration:** 62:05  \n**Language:** zh-tw\n\n- Point one');
+      expect(output).toContain('## 2. private0001\n\n*Error: No captions available for this video*');
+      expect(payload.items[0].input).toBe('https://youtu.be/dQw4w9WgXcQ');
+      expect(payload.items[0].summary?.title.translated).toBe('測試影片');
+      expect(payload.items[1]).toEqual({ input: 'private0001', error: 'No captions available for this video' });
+    });
+  });
+
+  describe('caption list', () => {
+    const captionList = {
+      video: mockResult.video,
+      captions: [
+        mockResult.caption,
+        {
+          baseUrl: 'https://www.youtube.com/api/timedtext?v=dQw4w9WgXcQ&lang=en&kind=asr',
+          name: { simpleText: 'English (auto-generated)' },
+          vssId: 'a.en',
+          languageCode: 'en',
+          kind: 'asr',
+          isTranslatable: false
+        }
+      ]
+    };
+
+    test('markdown renders one table row per track', () => {
+      const output = formatCaptionListMarkdown(captionList);
+
+      expect(output).toContain('**Caption tracks:** 2');
+      expect(output).toContain('| en | English | manual | .en | yes |');
+      expect(output).toContain('| en | English (auto-generated) | asr | a.en | no |');
+    });
+
+    test('payload lists every track with kind and vssId', () => {
+      const payload = toCaptionListPayload(captionList);
+
+      expect(payload.captions).toHaveLength(2);
+      expect(payload.captions[1]).toEqual({
+        languageCode: 'en',
+        name: 'English (auto-generated)',
+        kind: 'asr',
+        vssId: 'a.en',
+        isTranslatable: false
+      });
+    });
+  });
+
+  describe('playlist', () => {
+    const playlist: PlaylistResult = {
+      playlistId: 'PL123',
+      title: 'Course',
+      include: 'transcript',
+      videos: [
+        { index: 1, videoId: 'dQw4w9WgXcQ', title: 'Lesson 1', author: 'Teacher', lengthSeconds: 3725, duration: '62:05', transcript: mockResult },
+        { index: 2, videoId: 'bbbbbbbbbbb', title: 'Lesson 2', author: 'Teacher', lengthSeconds: 60, duration: '1:00', error: 'No captions available for this video' }
+      ]
+    };
+
+    test('markdown lists videos in order', () => {
+      const output = formatPlaylistMarkdown({ ...playlist, include: undefined });
+
+      expect(output).toContain('**Videos:** 2');
+      expect(output).toContain('1. **Lesson 1** (62:05) — Teacher · `dQw4w9WgXcQ`\n2. **Lesson 2**');
+    });
+
+    test('markdown and payload report per-video failures', () => {
+      const output = formatPlaylistMarkdown(playlist);
+      const payload = toPlaylistPayload(playlist);
+
+      expect(output).toContain('**Included:** transcripts (1 fetched, 1 failed)');
+      expect(output).toContain('### 1. Lesson 1');
+      expect(output).toContain('[00:01] Hello world');
+      expect(output).toContain('### 2. Lesson 2\n\n**Video ID:** bbbbbbbbbbb  \n**Duration:** 1:00\n\n*Error: No captions available for this video*');
+      expect(payload.videos[0].transcript?.segments).toHaveLength(3);
+      expect(payload.videos[1]).toEqual({
+        index: 2,
+        videoId: 'bbbbbbbbbbb',
+        title: 'Lesson 2',
+        author: 'Teacher',
+        lengthSeconds: 60,
+        duration: '1:00',
+        error: 'No captions available for this video'
+      });
+    });
+  });
+
+  describe('video info', () => {
+    const info: VideoInfoResult = {
+      video: mockResult.video,
+      description: 'A long talk.',
+      keywords: ['talk', 'conference'],
+      viewCount: 1234567,
+      thumbnails: [{ url: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/maxresdefault.jpg', width: 1280, height: 720 }],
+      publishDate: '2024-05-01',
+      isLive: false,
+      isLiveContent: true,
+      isUpcoming: false,
+      isPrivate: false,
+      playability: { status: 'OK' },
+      captions: [mockResult.caption]
+    };
+
+    test('markdown summarises status, captions and description', () => {
+      const output = formatVideoInfoMarkdown(info);
+
+      expect(output).toContain('**Views:** 1,234,567  \n**Published:** 2024-05-01');
+      expect(output).toContain('**Type:** past live stream');
+      expect(output).toContain('**Playability:** playable');
+      expect(output).toContain('**Captions:** en (manual)');
+      expect(output).toContain('**Keywords:** talk, conference');
+      expect(output).toContain('## Description\n\nA long talk.');
+      expect(output).toContain('- 1280×720: https://i.ytimg.com/vi/dQw4w9WgXcQ/maxresdefault.jpg');
+    });
+
+    test('payload converts caption tracks', () => {
+      const payload = toVideoInfoPayload({ ...info, playability: { status: 'LOGIN_REQUIRED', reason: 'Sign in' } });
+
+      expect(payload.captions).toEqual([{ languageCode: 'en', name: 'English', kind: 'manual', vssId: '.en', isTranslatable: true }]);
+      expect(payload.playability).toEqual({ status: 'LOGIN_REQUIRED', reason: 'Sign in' });
+    });
+  });
+
+  describe('transcript search', () => {
+    const search: TranscriptSearchResult = {
+      video: mockResult.video,
+      caption: mockResult.caption,
+      query: 'second',
+      match: 'words',
+      totalHits: 3,
+      hits: [{
+        timestamp: '[00:04]',
+        startSeconds: 4,
+        url: 'https://youtu.be/dQw4w9WgXcQ?t=4',
+        text: 'Second line',
+        before: [mockResult.segments[0]],
+        after: [mockResult.segments[2]]
+      }]
+    };
+
+    test('markdown links each hit and bolds it between its context lines', () => {
+      const output = formatTranscriptSearchMarkdown(search);
+
+      expect(output).toContain('**Query:** second (words)  \n**Hits:** 3 (showing the first 1)');
+      expect(output).toContain('### [00:04](https://youtu.be/dQw4w9WgXcQ?t=4)\n\n[00:01] Hello world\n**[00:04] Second line**\n[01:02:01] Past the hour');
+      expect(formatTranscriptSearchMarkdown({ ...search, totalHits: 0, hits: [] })).toContain('*No matches for "second".*');
+    });
+  });
+
+  describe('thumbnail', () => {
+    const thumbnail: ThumbnailResult = {
+      videoId: 'dQw4w9WgXcQ',
+      size: 'large',
+      url: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/maxresdefault.jpg',
+      mimeType: 'image/jpeg',
+      data: 'aW1hZ2U=',
+      fallback: false
+    };
+
+    test('markdown names the image and flags the fallback', () => {
+      expect(formatThumbnailMarkdown(thumbnail)).toBe('**Thumbnail (large):** https://i.ytimg.com/vi/dQw4w9WgXcQ/maxresdefault.jpg');
+      expect(formatThumbnailMarkdown({ ...thumbnail, url: 'https://via.placeholder.com/1280x720', fallback: true }))
+        .toBe('*No large thumbnail for dQw4w9WgXcQ; showing the fallback image (https://via.placeholder.com/1280x720).*');
+    });
+
+    test('payload leaves out the image data', () => {
+      expect(toThumbnailPayload(thumbnail)).not.toHaveProperty('data');
+      expect(toThumbnailPayload(thumbnail).mimeType).toBe('image/jpeg');
+    });
+  });
+});
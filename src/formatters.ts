@@ -0,0 +1,502 @@
+/**
+ * Transcript and summary renderers
+ * Turn client results into Markdown, SRT, WebVTT, JSON or plain text
+ */
+
+import { groupSegmentsByChapter } from './chapters.js';
+import type {
+  BatchEntry,
+  BatchPayload,
+  BatchResult,
+  CaptionInfo,
+  CaptionListPayload,
+  CaptionListResult,
+  CaptionTrack,
+  Chapter,
+  ChaptersResult,
+  ChannelVideosResult,
+  PlaylistEntry,
+  PlaylistPayload,
+  PlaylistResult,
+  SearchResult,
+  SummaryPayload,
+  SummaryResult,
+  ThumbnailPayload,
+  ThumbnailResult,
+  TranscriptFormat,
+  TranscriptPage,
+  TranscriptPayload,
+  TranscriptRange,
+  TranscriptResult,
+  TranscriptSearchHit,
+  TranscriptSearchPayload,
+  TranscriptSearchResult,
+  TranscriptSegment,
+  VideoInfoPayload,
+  VideoInfoResult,
+} from './types.js';
+import { formatTimestamp, videoLink } from './utils.js';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['markdown', 'srt', 'vtt', 'json', 'txt'];
+
+export interface MarkdownOptions {
+  /** Render each timestamp as a link to the video at that second */
+  links?: boolean;
+}
+
+export function isTranscriptFormat(value: unknown): value is TranscriptFormat {
+  return typeof value === 'string' && (TRANSCRIPT_FORMATS as string[]).includes(value);
+}
+
+export function formatTranscript(result: TranscriptResult, format: TranscriptFormat = 'markdown', options: MarkdownOptions = {}): string {
+  switch (format) {
+    case 'srt':
+      return formatSRT(result.segments);
+    case 'vtt':
+      return formatVTT(result.segments);
+    case 'json':
+      return formatJSON(result);
+    case 'txt':
+      return result.segments.map(segment => segment.text).join('\n');
+    case 'markdown':
+    default:
+      return formatMarkdown(result, options);
+  }
+}
+
+export function formatMarkdown(
+  { video, caption, translation, range, page, chapters, segments }: TranscriptResult,
+  { links = false }: MarkdownOptions = {}
+): string {
+  const linkVideoId = links ? video.videoId : undefined;
+  const captionType = caption.kind === 'asr' ? 'auto-generated' : 'manual';
+  const translationNote = translation
+    ? `, machine-translated from ${translation.sourceLanguageCode} to ${translation.targetLanguageCode}`
+    : '';
+  const chapterLine = chapters ? `  \n**Chapters:** ${chapters.length > 0 ? chapters.length : 'none found'}` : '';
+
+  const body = chapters && chapters.length > 0
+    ? groupSegmentsByChapter(segments, chapters)
+        .map(group => `### ${group.chapter.title} (${formatChapterRange(group.chapter)})\n\n${formatLines(group.segments, linkVideoId)}`)
+        .join('\n\n')
+    : formatLines(segments, linkVideoId);
+
+  return `# ${video.title}
+
+**Author:** ${video.author}  
+**Duration:** ${video.duration}  
+**Captions:** ${caption.name?.simpleText || caption.languageCode} (${captionType}${translationNote})${range ? `  \n**Range:** ${formatRange(range)}` : ''}${page ? `  \n**Page:** ${formatPage(page)}` : ''}${chapterLine}
+
+## Transcript
+
+${body}
+${page?.nextCursor ? `\n*More segments available. Call again with cursor: \`${page.nextCursor}\`*\n` : ''}
+---
+*Generated using DeepSRT MCP Server*`;
+}
+
+/**
+ * `[MM:SS] text`, with the timestamp as a Markdown link to that second of
+ * the video when `linkVideoId` is given
+ */
+export function formatSegmentLine(segment: TranscriptSegment, linkVideoId?: string): string {
+  const timestamp = linkVideoId
+    ? `[${segment.timestamp}](${videoLink(linkVideoId, segment.startMs / 1000)})`
+    : segment.timestamp;
+  return `${timestamp} ${segment.text}`;
+}
+
+export function formatSRT(segments: TranscriptSegment[]): string {
+  return segments.map((segment, index) => {
+    const endMs = cueEndMs(segments, index);
+    return `${index + 1}
+${formatCueTime(segment.startMs, ',')} --> ${formatCueTime(endMs, ',')}
+${segment.text}
+`;
+  }).join('\n');
+}
+
+export function formatVTT(segments: TranscriptSegment[]): string {
+  const cues = segments.map((segment, index) => {
+    const endMs = cueEndMs(segments, index);
+    return `${formatCueTime(segment.startMs, '.')} --> ${formatCueTime(endMs, '.')}
+${segment.text}
+`;
+  });
+
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+export function formatJSON(result: TranscriptResult): string {
+  return JSON.stringify(toTranscriptPayload(result), null, 2);
+}
+
+export function formatSummaryMarkdown(result: SummaryResult): string {
+  return `# ${result.translatedTitle}
+
+**Author:** ${result.video.author}  
+**Duration:** ${result.video.duration}  
+**Language:** ${result.lang}  
+**Mode:** ${result.mode}
+
+## Summary
+
+${result.summary}
+
+---
+*Generated using DeepSRT MCP Server*`;
+}
+
+export function formatCaptionListMarkdown({ video, captions }: CaptionListResult): string {
+  const rows = captions.map(toCaptionInfo).map(caption =>
+    `| ${caption.languageCode} | ${caption.name} | ${caption.kind} | ${caption.vssId} | ${caption.isTranslatable ? 'yes' : 'no'} |`
+  );
+
+  return `# ${video.title}
+
+**Author:** ${video.author}  
+**Duration:** ${video.duration}  
+**Caption tracks:** ${captions.length}
+
+## Available Captions
+
+| Language | Name | Kind | vssId | Translatable |
+|----------|------|------|-------|--------------|
+${rows.join('\n')}
+
+---
+*Generated using DeepSRT MCP Server*`;
+}
+
+export function formatChaptersMarkdown({ video, source, chapters }: ChaptersResult): string {
+  const list = chapters.length > 0
+    ? chapters.map((chapter, index) => `${index + 1}. **${chapter.title}** (${formatChapterRange(chapter)})`).join('\n')
+    : '*This video has no chapters.*';
+
+  return `# ${video.title}
+
+**Author:** ${video.author}  
+**Duration:** ${video.duration}  
+**Chapters:** ${chapters.length}${source ? ` (from ${source === 'innertube' ? 'YouTube chapter data' : 'the description'})` : ''}
+
+## Chapters
+
+${list}
+
+---
+*Generated using DeepSRT MCP Server*`;
+}
+
+export function formatPlaylistMarkdown({ playlistId, title, include, videos }: PlaylistResult): string {
+  const failed = videos.filter(video => video.error).length;
+  const body = include
+    ? videos.map(formatPlaylistEntry).join('\n\n')
+    : videos.map(video => `${video.index}. **${video.title}** (${video.duration}) — ${video.author} · \`${video.videoId}\``).join('\n');
+
+  return `# ${title}
+
+**Playlist ID:** ${playlistId}  
+**Videos:** ${videos.length}${include ? `  \n**Included:** ${include}s (${videos.length - failed} fetched, ${failed} failed)` : ''}
+
+## Videos
+
+${body}
+
+---
+*Generated using DeepSRT MCP Server*`;
+}
+
+export function formatBatchMarkdown({ include, items }: BatchResult): string {
+  const failed = items.filter(item => item.error).length;
+
+  return `# Batch ${include === 'summary' ? 'Summaries' : 'Transcripts'}
+
+**Videos:** ${items.length} (${items.length - failed} fetched, ${failed} failed)
+
+${items.map(formatBatchEntry).join('\n\n')}
+
+---
+*Generated using DeepSRT MCP Server*`;
+}
+
+export function formatChannelVideosMarkdown({ channelId, title, videos, nextCursor }: ChannelVideosResult): string {
+  const rows = videos.map(video =>
+    `| ${video.publishedAt ?? '—'} | ${video.publishedText ?? '—'} | ${video.duration} | ${video.title.replace(/\|/g, '\\|')} | ${video.videoId} |`
+  );
+
+  return `# ${title}
+
+**Channel ID:** ${channelId}  
+**Videos:** ${videos.length}
+
+## Recent Uploads
+
+| Date (approx.) | Uploaded | Duration | Title | Video ID |
+|----------------|----------|----------|-------|----------|
+${rows.join('\n')}
+${nextCursor ? `\n*Older uploads available. Call again with cursor: \`${nextCursor}\`*\n` : ''}
+---
+*Generated using DeepSRT MCP Server*`;
+}
+
+export function formatSearchResultsMarkdown({ query, filters, videos }: SearchResult): string {
+  const filterText = [
+    filters.duration && `duration: ${filters.duration}`,
+    filters.uploadDate && `uploaded: ${filters.uploadDate}`,
+  ].filter(Boolean).join(', ');
+
+  const rows = videos.map(video =>
+    `| ${video.rank} | ${video.title.replace(/\|/g, '\\|')} | ${video.channel.replace(/\|/g, '\\|')} | ${video.duration} | ${video.publishedText ?? '—'} | ${video.hasCaptions ? 'yes' : '—'} | ${video.videoId} |`
+  );
+
+  return `# Search: ${query}
+
+**Results:** ${videos.length}${filterText ? `  \n**Filters:** ${filterText}` : ''}
+
+| # | Title | Channel | Duration | Uploaded | CC | Video ID |
+|---|-------|---------|----------|----------|----|----------|
+${rows.join('\n')}
+
+---
+*Generated using DeepSRT MCP Server*`;
+}
+
+export function formatTranscriptSearchMarkdown({ video, query, match, totalHits, hits }: TranscriptSearchResult): string {
+  const shown = hits.length < totalHits ? ` (showing the first ${hits.length})` : '';
+  const body = hits.length > 0
+    ? hits.map(formatSearchHit).join('\n\n')
+    : `*No matches for "${query}".*`;
+
+  return `# ${video.title}
+
+**Author:** ${video.author}  
+**Duration:** ${video.duration}  
+**Query:** ${query} (${match})  
+**Hits:** ${totalHits}${shown}
+
+## Matches
+
+${body}
+
+---
+*Generated using DeepSRT MCP Server*`;
+}
+
+export function formatVideoInfoMarkdown(info: VideoInfoResult): string {
+  const { video, playability } = info;
+  const status = info.isLive ? 'live now' : info.isUpcoming ? 'upcoming' : info.isLiveContent ? 'past live stream' : 'video';
+  const playable = playability.status === 'OK'
+    ? 'playable'
+    : `${playability.status}${playability.reason ? ` — ${playability.reason}` : ''}`;
+  const captions = info.captions.length > 0
+    ? info.captions.map(toCaptionInfo).map(caption => `${caption.languageCode} (${caption.kind})`).join(', ')
+    : 'none';
+  const thumbnails = info.thumbnails.map(thumbnail => `- ${thumbnail.width}×${thumbnail.height}: ${thumbnail.url}`);
+
+  return `# ${video.title}
+
+**Author:** ${video.author}  
+**Channel ID:** ${video.channelId}  
+**Duration:** ${video.duration}  
+**Views:** ${info.viewCount.toLocaleString('en-US')}${info.publishDate ? `  \n**Published:** ${info.publishDate}` : ''}${info.category ? `  \n**Category:** ${info.category}` : ''}  
+**Type:** ${status}${info.isPrivate ? ' (private)' : ''}  
+**Playability:** ${playable}  
+**Captions:** ${captions}${info.keywords.length > 0 ? `  \n**Keywords:** ${info.keywords.join(', ')}` : ''}
+
+## Description
+
+${info.description || '*No description*'}
+${thumbnails.length > 0 ? `\n## Thumbnails\n\n${thumbnails.join('\n')}\n` : ''}
+---
+*Generated using DeepSRT MCP Server*`;
+}
+
+export function formatThumbnailMarkdown({ videoId, size, url, fallback }: ThumbnailResult): string {
+  return fallback
+    ? `*No ${size} thumbnail for ${videoId}; showing the fallback image (${url}).*`
+    : `**Thumbnail (${size}):** ${url}`;
+}
+
+export function toCaptionInfo(caption: CaptionTrack): CaptionInfo {
+  return {
+    languageCode: caption.languageCode,
+    name: caption.name?.simpleText || caption.languageCode,
+    kind: caption.kind === 'asr' ? 'asr' : 'manual',
+    vssId: caption.vssId,
+    isTranslatable: Boolean(caption.isTranslatable),
+  };
+}
+
+export function toTranscriptPayload({ video, caption, translation, range, page, chapters, segmentation, segments }: TranscriptResult): TranscriptPayload {
+  return {
+    video,
+    caption: toCaptionInfo(caption),
+    ...(translation && { translation: { ...translation, machineTranslated: true as const } }),
+    ...(range && { range }),
+    ...(page && { page }),
+    ...(chapters && { chapters }),
+    ...(segmentation && { segmentation }),
+    segments: segments.map(({ startMs, durationMs, text }) => ({ startMs, durationMs, text })),
+  };
+}
+
+export function toTranscriptSearchPayload({ caption, translation, ...result }: TranscriptSearchResult): TranscriptSearchPayload {
+  return {
+    ...result,
+    caption: toCaptionInfo(caption),
+    ...(translation && { translation: { ...translation, machineTranslated: true as const } }),
+  };
+}
+
+export function toCaptionListPayload({ video, captions }: CaptionListResult): CaptionListPayload {
+  return {
+    video,
+    captions: captions.map(toCaptionInfo),
+  };
+}
+
+export function toSummaryPayload(result: SummaryResult): SummaryPayload {
+  return {
+    video: result.video,
+    caption: toCaptionInfo(result.caption),
+    lang: result.lang,
+    mode: result.mode,
+    title: {
+      original: result.video.title,
+      translated: result.translatedTitle,
+    },
+    summary: result.summary,
+  };
+}
+
+export function toPlaylistPayload({ playlistId, title, include, videos }: PlaylistResult): PlaylistPayload {
+  return {
+    playlistId,
+    title,
+    ...(include && { include }),
+    videos: videos.map(({ transcript, summary, ...video }) => ({
+      ...video,
+      ...(transcript && { transcript: toTranscriptPayload(transcript) }),
+      ...(summary && { summary: toSummaryPayload(summary) }),
+    })),
+  };
+}
+
+export function toBatchPayload({ include, items }: BatchResult): BatchPayload {
+  return {
+    include,
+    items: items.map(({ transcript, summary, ...item }) => ({
+      ...item,
+      ...(transcript && { transcript: toTranscriptPayload(transcript) }),
+      ...(summary && { summary: toSummaryPayload(summary) }),
+    })),
+  };
+}
+
+export function toVideoInfoPayload(info: VideoInfoResult): VideoInfoPayload {
+  return {
+    ...info,
+    captions: info.captions.map(toCaptionInfo),
+  };
+}
+
+export function toThumbnailPayload({ data, ...thumbnail }: ThumbnailResult): ThumbnailPayload {
+  return thumbnail;
+}
+
+function formatPlaylistEntry(video: PlaylistEntry): string {
+  const heading = `### ${video.index}. ${video.title}
+
+**Video ID:** ${video.videoId}  
+**Duration:** ${video.duration}`;
+
+  if (video.error) {
+    return `${heading}
+
+*Error: ${video.error}*`;
+  }
+
+  const content = video.transcript
+    ? formatLines(video.transcript.segments)
+    : video.summary?.summary ?? '';
+
+  return `${heading}
+
+${content}`;
+}
+
+function formatBatchEntry({ input, transcript, summary, error }: BatchEntry, index: number): string {
+  const result = transcript ?? summary;
+  if (!result) {
+    return `## ${index + 1}. ${input}
+
+*Error: ${error}*`;
+  }
+
+  const title = summary && summary.translatedTitle !== summary.video.title ? summary.translatedTitle : result.video.title;
+  const content = transcript ? formatLines(transcript.segments) : summary?.summary ?? '';
+  const language = transcript
+    ? transcript.translation?.targetLanguageCode ?? transcript.caption.languageCode
+    : summary?.lang;
+
+  return `## ${index + 1}. ${title}
+
+**Video ID:** ${result.video.videoId}  
+**Duration:** ${result.video.duration}  
+**Language:** ${language}
+
+${content}`;
+}
+
+function formatSearchHit(hit: TranscriptSearchHit): string {
+  return `### [${hit.timestamp.slice(1, -1)}](${hit.url})
+
+${[formatLines(hit.before), `**${hit.timestamp} ${hit.text}**`, formatLines(hit.after)].filter(Boolean).join('\n')}`;
+}
+
+function formatLines(segments: TranscriptSegment[], linkVideoId?: string): string {
+  return segments.map(segment => formatSegmentLine(segment, linkVideoId)).join('\n');
+}
+
+/** `MM:SS`, or `HH:MM:SS` from the first hour on, matching segment timestamps */
+function formatClock(seconds: number): string {
+  return formatTimestamp(seconds * 1000).slice(1, -1);
+}
+
+export function formatChapterRange({ startSeconds, endSeconds }: Chapter): string {
+  return `${formatClock(startSeconds)} – ${formatClock(endSeconds)}`;
+}
+
+function formatRange({ startSeconds, endSeconds }: TranscriptRange): string {
+  const start = formatClock(startSeconds);
+  return endSeconds !== undefined ? `${start} – ${formatClock(endSeconds)}` : `from ${start}`;
+}
+
+function formatPage({ offset, count, totalSegments }: TranscriptPage): string {
+  return `segments ${offset + 1}–${offset + count} of ${totalSegments}`;
+}
+
+/**
+ * Auto-generated tracks overlap each cue with the next one, which players
+ * render as stacked lines, so cues are clipped at the next cue's start.
+ */
+function cueEndMs(segments: TranscriptSegment[], index: number): number {
+  const segment = segments[index];
+  const next = segments[index + 1];
+  const endMs = segment.startMs + segment.durationMs;
+
+  if (next && next.startMs > segment.startMs && (endMs > next.startMs || segment.durationMs === 0)) {
+    return next.startMs;
+  }
+
+  return endMs;
+}
+
+function formatCueTime(milliseconds: number, separator: ',' | '.'): string {
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor((milliseconds % 3600000) / 60000);
+  const seconds = Math.floor((milliseconds % 60000) / 1000);
+  const millis = milliseconds % 1000;
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}${separator}${millis.toString().padStart(3, '0')}`;
+}
@@ -0,0 +1,243 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server as HttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { isAllowedOrigin, parseServerOptions, startHttpServer } from './http.js';
+
+const initialize = (id: number) => ({
+  jsonrpc: '2.0',
+  id,
+  method: 'initialize',
+  params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+});
+
+function createSession() {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  return server;
+}
+
+describe('parseServerOptions', () => {
+  test('defaults to stdio', () => {
+    expect(parseServerOptions([])).toEqual({ transport: 'stdio', host: '127.0.0.1', port: 3000 });
+    expect(parseServerOptions(['--server'])).toEqual({ transport: 'stdio', host: '127.0.0.1', port: 3000 });
+  });
+
+  test('reads flags in --flag=value and --flag value form', () => {
+    expect(parseServerOptions(['--transport=http', '--port', '8080', '--host=0.0.0.0'])).toEqual({
+      transport: 'http',
+      host: '0.0.0.0',
+      port: 8080
+    });
+    expect(parseServerOptions(['--server', '--transport', 'sse']).transport).toBe('sse');
+  });
+
+  test('rejects unknown options and invalid values', () => {
+    expect(() => parseServerOptions(['--transport=websocket'])).toThrow('Invalid transport: websocket');
+    expect(() => parseServerOptions(['--port=http'])).toThrow('Invalid port: http');
+    expect(() => parseServerOptions(['--port'])).toThrow('Missing value for --port');
+    expect(() => parseServerOptions(['--verbose'])).toThrow('Unknown server option: --verbose');
+  });
+});
+
+describe('startHttpServer', () => {
+  let httpServer: HttpServer;
+  let base: string;
+
+  beforeAll(async () => {
+    httpServer = await startHttpServer(createSession, { host: '127.0.0.1', port: 0 });
+    base = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    httpServer.closeAllConnections();
+    httpServer.close();
+  });
+
+  const post = (body: unknown, headers: Record<string, string> = {}) => fetch(`${base}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+
+  test('gives each initialize its own session', async () => {
+    const first = await post(initialize(1));
+    const second = await post(initialize(1));
+
+    expect(first.status).toBe(200);
+    expect((await first.json()).result.serverInfo.name).toBe('test');
+    await second.json();
+    expect(first.headers.get('mcp-session-id')).toBeTruthy();
+    expect(first.headers.get('mcp-session-id')).not.toBe(second.headers.get('mcp-session-id'));
+  });
+
+  test('answers requests and batches within a session', async () => {
+    const sessionId = (await post(initialize(1))).headers.get('mcp-session-id')!;
+    const headers = { 'Mcp-Session-Id': sessionId };
+
+    const notification = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, headers);
+    expect(notification.status).toBe(202);
+
+    const single = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, headers);
+    expect(await single.json()).toEqual({ jsonrpc: '2.0', id: 2, result: { tools: [] } });
+
+    const batch = await post([
+      { jsonrpc: '2.0', id: 3, method: 'tools/list' },
+      { jsonrpc: '2.0', id: 4, method: 'ping' }
+    ], headers);
+    expect((await batch.json()).map((message: any) => message.id).sort()).toEqual([3, 4]);
+  });
+
+  test('ends a POST whose request was cancelled', async () => {
+    const sessionId = (await post(initialize(1))).headers.get('mcp-session-id')!;
+    const headers = { 'Mcp-Session-Id': sessionId };
+    const cancel = (requestId: number) => ({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId, reason: 'test' } });
+
+    const cancelled = await post([{ jsonrpc: '2.0', id: 2, method: 'tools/list' }, cancel(2)], headers);
+    expect(cancelled.status).toBe(202);
+
+    const mixed = await post([{ jsonrpc: '2.0', id: 3, method: 'tools/list' }, { jsonrpc: '2.0', id: 4, method: 'ping' }, cancel(3)], headers);
+    expect((await mixed.json()).map((message: any) => message.id)).toEqual([4]);
+  });
+
+  test('streams responses as SSE when the client accepts them', async () => {
+    const response = await post(initialize(7), { Accept: 'application/json, text/event-stream' });
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(await response.text()).toContain('"id":7');
+  });
+
+  test('rejects requests without a known session', async () => {
+    const missing = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    const unknown = await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'Mcp-Session-Id': 'nope' });
+
+    expect(missing.status).toBe(400);
+    expect(unknown.status).toBe(404);
+  });
+
+  test('forgets a session once it is deleted', async () => {
+    const sessionId = (await post(initialize(1))).headers.get('mcp-session-id')!;
+    const headers = { 'Mcp-Session-Id': sessionId };
+
+    const deleted = await fetch(`${base}/mcp`, { method: 'DELETE', headers });
+    expect(deleted.status).toBe(200);
+    expect((await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, headers)).status).toBe(404);
+  });
+
+  test('rejects malformed JSON-RPC', async () => {
+    const invalidJson = await fetch(`${base}/mcp`, { method: 'POST', body: '{' });
+    const invalidMessage = await post({ hello: 'world' });
+
+    expect(invalidJson.status).toBe(400);
+    expect((await invalidJson.json()).error.code).toBe(-32700);
+    expect(invalidMessage.status).toBe(400);
+  });
+
+  test('rejects SSE messages for unknown sessions', async () => {
+    const response = await fetch(`${base}/messages?sessionId=nope`, { method: 'POST', body: '{}' });
+    expect(response.status).toBe(404);
+  });
+
+  test('rejects browser requests from other origins', async () => {
+    const foreign = await post(initialize(1), { Origin: 'https://evil.example' });
+    const local = await post(initialize(1), { Origin: 'http://localhost:5173' });
+
+    expect(foreign.status).toBe(403);
+    expect(local.status).toBe(200);
+    await local.json();
+  });
+});
+
+describe('isAllowedOrigin', () => {
+  test('allows non-browser clients, localhost and configured origins', () => {
+    expect(isAllowedOrigin(undefined, [])).toBe(true);
+    expect(isAllowedOrigin('http://127.0.0.1:3000', [])).toBe(true);
+    expect(isAllowedOrigin('http://[::1]', [])).toBe(true);
+    expect(isAllowedOrigin('https://app.example.com', ['https://app.example.com'])).toBe(true);
+    expect(isAllowedOrigin('https://localhost.evil.example', [])).toBe(false);
+    expect(isAllowedOrigin('null', [])).toBe(false);
+  });
+});
+
+describe('session limits', () => {
+  let httpServer: HttpServer;
+  let base: string;
+
+  beforeAll(async () => {
+    httpServer = await startHttpServer(createSession, { host: '127.0.0.1', port: 0, maxSessions: 1, sessionIdleMs: 200 });
+    base = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    httpServer.closeAllConnections();
+    httpServer.close();
+  });
+
+  const post = (body: unknown, headers: Record<string, string> = {}) => fetch(`${base}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+
+  test('caps the number of sessions and closes idle ones', async () => {
+    const first = await post(initialize(1));
+    const headers = { 'Mcp-Session-Id': first.headers.get('mcp-session-id')! };
+    await first.json();
+
+    const full = await post(initialize(1));
+    expect(full.status).toBe(503);
+
+    await new Promise(resolve => setTimeout(resolve, 450));
+    expect((await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, headers)).status).toBe(404);
+
+    const next = await post(initialize(1));
+    expect(next.status).toBe(200);
+    await next.json();
+  });
+});
+
+describe('idle sessions with an open stream', () => {
+  let httpServer: HttpServer;
+  let base: string;
+
+  beforeAll(async () => {
+    httpServer = await startHttpServer(createSession, { host: '127.0.0.1', port: 0, sessionIdleMs: 100 });
+    base = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    httpServer.closeAllConnections();
+    httpServer.close();
+  });
+
+  const post = (body: unknown, headers: Record<string, string> = {}) => fetch(`${base}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+
+  test('keeps connected streams open past the idle timeout', async () => {
+    const controller = new AbortController();
+    const sse = await fetch(`${base}/sse`, { signal: controller.signal });
+    const reader = sse.body!.getReader();
+    const endpoint = new TextDecoder().decode((await reader.read()).value).match(/data: (\S+)/)![1];
+
+    const initialized = await post(initialize(1));
+    const headers = { 'Mcp-Session-Id': initialized.headers.get('mcp-session-id')!, Accept: 'text/event-stream' };
+    await initialized.json();
+    const stream = await fetch(`${base}/mcp`, { headers, signal: controller.signal });
+    expect(stream.status).toBe(200);
+
+    await new Promise(resolve => setTimeout(resolve, 350));
+
+    const message = await fetch(new URL(endpoint, base), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initialize(2))
+    });
+    expect(message.status).toBe(202);
+    expect((await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, headers)).status).toBe(200);
+    controller.abort();
+  });
+});
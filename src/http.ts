@@ -0,0 +1,485 @@
+/**
+ * HTTP transports for the MCP server
+ * One process serves many editors: every client gets its own MCP session,
+ * either over Streamable HTTP (`POST/GET/DELETE /mcp` with an
+ * `Mcp-Session-Id` header) or, for older clients, over the legacy SSE
+ * transport (`GET /sse` plus `POST /messages?sessionId=`). Idle sessions are
+ * closed and the number of sessions is capped; browser requests are only
+ * accepted from localhost or `config.http.allowedOrigins`.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ErrorCode, JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import { config } from './config.js';
+
+export type ServerTransportKind = 'stdio' | 'http' | 'sse';
+
+export const SERVER_TRANSPORTS: ServerTransportKind[] = ['stdio', 'http', 'sse'];
+
+export interface ServerOptions {
+  transport: ServerTransportKind;
+  host: string;
+  port: number;
+}
+
+export interface SessionLimits {
+  maxSessions: number;
+  /** Close sessions that have not made a request for this long */
+  sessionIdleMs: number;
+  /** Browser origins allowed besides localhost */
+  allowedOrigins: string[];
+}
+
+/** Anything that can serve one MCP session over a transport */
+export interface McpSession {
+  connect(transport: Transport): Promise<void>;
+}
+
+export const SESSION_HEADER = 'mcp-session-id';
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+};
+
+/**
+ * Server flags: `--transport=stdio|http|sse`, `--port=N` and `--host=H`,
+ * in `--flag=value` or `--flag value` form. `--server` is accepted and
+ * ignored so the unified entry point can pass its arguments through.
+ */
+export function parseServerOptions(args: string[]): ServerOptions {
+  const options: ServerOptions = {
+    transport: 'stdio',
+    host: config.http.host,
+    port: config.http.port,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--server') continue;
+
+    const match = arg.match(/^--(transport|port|host)(?:=(.*))?$/);
+    if (!match) {
+      throw new Error(`Unknown server option: ${arg}`);
+    }
+
+    const value = match[2] ?? args[++i];
+    if (value === undefined || value === '') {
+      throw new Error(`Missing value for --${match[1]}`);
+    }
+
+    if (match[1] === 'transport') {
+      if (!SERVER_TRANSPORTS.includes(value as ServerTransportKind)) {
+        throw new Error(`Invalid transport: ${value}. Use ${SERVER_TRANSPORTS.join(', ')}`);
+      }
+      options.transport = value as ServerTransportKind;
+    } else if (match[1] === 'port') {
+      const port = Number(value);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid port: ${value}`);
+      }
+      options.port = port;
+    } else {
+      options.host = value;
+    }
+  }
+
+  return options;
+}
+
+function isRequest(message: JSONRPCMessage): message is JSONRPCMessage & { id: string | number; method: string } {
+  return 'method' in message && 'id' in message;
+}
+
+function isResponse(message: JSONRPCMessage): message is JSONRPCMessage & { id: string | number } {
+  return 'id' in message && ('result' in message || 'error' in message);
+}
+
+/** `notifications/cancelled`, after which the SDK never answers the request */
+function cancelledRequestId(message: JSONRPCMessage): string | number | undefined {
+  if (!('method' in message) || message.method !== 'notifications/cancelled' || 'id' in message) {
+    return undefined;
+  }
+  const requestId = (message.params as { requestId?: unknown } | undefined)?.requestId;
+  return typeof requestId === 'string' || typeof requestId === 'number' ? requestId : undefined;
+}
+
+function writeEvent(res: ServerResponse, message: JSONRPCMessage): void {
+  res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+interface PendingPost {
+  res: ServerResponse;
+  /** Request IDs still waiting for a response */
+  pending: Set<string | number>;
+  /** Stream responses as SSE events instead of one JSON body */
+  stream: boolean;
+  batch: boolean;
+  responses: JSONRPCMessage[];
+}
+
+/**
+ * Server side of the Streamable HTTP transport. Each POST answers its own
+ * requests, as a JSON body or as an SSE stream when the client accepts one;
+ * notifications go out on an open POST stream or the session's GET stream.
+ * A cancelled request gets no response, so the POST stops waiting for it.
+ */
+export class StreamableHttpServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private posts: PendingPost[] = [];
+  private standalone?: ServerResponse;
+  private closed = false;
+
+  async start(): Promise<void> {}
+
+  /** A GET stream or a POST awaiting responses is open */
+  get connected(): boolean {
+    return this.standalone !== undefined || this.posts.length > 0;
+  }
+
+  handlePost(messages: JSONRPCMessage[], batch: boolean, req: IncomingMessage, res: ServerResponse): void {
+    res.setHeader('Mcp-Session-Id', this.sessionId);
+
+    const requestIds = messages.filter(isRequest).map(message => message.id);
+    if (requestIds.length === 0) {
+      res.writeHead(202).end();
+    } else {
+      const post: PendingPost = {
+        res,
+        pending: new Set(requestIds),
+        stream: (req.headers.accept ?? '').includes('text/event-stream'),
+        batch,
+        responses: [],
+      };
+      if (post.stream) {
+        res.writeHead(200, SSE_HEADERS);
+      }
+      this.posts.push(post);
+      res.on('close', () => {
+        this.posts = this.posts.filter(open => open !== post);
+      });
+    }
+
+    messages.forEach(message => {
+      const cancelled = cancelledRequestId(message);
+      if (cancelled !== undefined) {
+        this.forget(cancelled);
+      }
+      this.onmessage?.(message);
+    });
+  }
+
+  handleGet(res: ServerResponse): void {
+    if (this.standalone) {
+      sendError(res, 409, ErrorCode.InvalidRequest, 'Session already has an open stream');
+      return;
+    }
+
+    // Send the headers now; the first event may be a long way off
+    res.writeHead(200, { ...SSE_HEADERS, 'Mcp-Session-Id': this.sessionId }).flushHeaders();
+    this.standalone = res;
+    res.on('close', () => {
+      if (this.standalone === res) this.standalone = undefined;
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (isResponse(message)) {
+      const post = this.posts.find(open => open.pending.has(message.id));
+      // The client has gone away; there is nobody left to answer
+      if (!post) return;
+
+      post.pending.delete(message.id);
+      if (post.stream) {
+        writeEvent(post.res, message);
+      } else {
+        post.responses.push(message);
+      }
+
+      if (post.pending.size === 0) {
+        this.finish(post);
+      }
+      return;
+    }
+
+    const target = this.posts.find(open => open.stream)?.res ?? this.standalone;
+    if (target) {
+      writeEvent(target, message);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    this.posts.forEach(post => post.res.end());
+    this.posts = [];
+    this.standalone?.end();
+    this.standalone = undefined;
+    this.onclose?.();
+  }
+
+  /** Stop waiting for a request's response, ending its POST if nothing else is pending */
+  private forget(requestId: string | number): void {
+    const post = this.posts.find(open => open.pending.has(requestId));
+    if (!post) return;
+
+    post.pending.delete(requestId);
+    if (post.pending.size === 0) {
+      this.finish(post);
+    }
+  }
+
+  private finish(post: PendingPost): void {
+    this.posts = this.posts.filter(open => open !== post);
+
+    if (post.stream) {
+      post.res.end();
+    } else if (post.responses.length === 0) {
+      post.res.writeHead(202).end();
+    } else {
+      post.res.writeHead(200, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify(post.batch ? post.responses : post.responses[0]));
+    }
+  }
+}
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Whether a request may be served. Requests without an `Origin` header come
+ * from non-browser clients; browser requests must come from localhost or an
+ * allowed origin, so a page on another site cannot reach a local server
+ * through DNS rebinding.
+ */
+export function isAllowedOrigin(origin: string | undefined, allowedOrigins: string[]): boolean {
+  if (origin === undefined) {
+    return true;
+  }
+
+  try {
+    const { hostname } = new URL(origin);
+    return LOCAL_HOSTNAMES.includes(hostname) || allowedOrigins.includes(origin);
+  } catch {
+    return false;
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > config.http.maxBodyBytes) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+type SessionTransport = StreamableHttpServerTransport | SSEServerTransport;
+
+/**
+ * Serve MCP over HTTP until the server is closed. `createSession` is called
+ * once per client session; sessions are forgotten when their transport
+ * closes or after `sessionIdleMs` without a request.
+ */
+export function startHttpServer(
+  createSession: () => McpSession,
+  options: Pick<ServerOptions, 'host' | 'port'> & Partial<SessionLimits>
+): Promise<HttpServer> {
+  const {
+    maxSessions = config.http.maxSessions,
+    sessionIdleMs = config.http.sessionIdleMs,
+    allowedOrigins = config.http.allowedOrigins,
+  } = options;
+  const sessions = new Map<string, { transport: SessionTransport; lastSeen: number }>();
+
+  const findSession = (sessionId: string | undefined) => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (session) {
+      session.lastSeen = Date.now();
+    }
+    return session?.transport;
+  };
+
+  /**
+   * Close sessions idle for `sessionIdleMs`. A session with an open stream
+   * is still connected, however long since its last request; legacy SSE
+   * sessions always have one, as they close with their stream.
+   */
+  const closeIdleSessions = () => {
+    const cutoff = Date.now() - sessionIdleMs;
+    for (const { transport, lastSeen } of [...sessions.values()]) {
+      const connected = transport instanceof SSEServerTransport || transport.connected;
+      if (lastSeen <= cutoff && !connected) {
+        transport.close().catch(() => {});
+      }
+    }
+  };
+
+  const openSession = async (transport: SessionTransport) => {
+    sessions.set(transport.sessionId, { transport, lastSeen: Date.now() });
+    try {
+      await createSession().connect(transport);
+    } catch (error) {
+      sessions.delete(transport.sessionId);
+      throw error;
+    }
+
+    // connect() installs its own onclose, so chain onto it
+    const onclose = transport.onclose;
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+      onclose?.();
+    };
+  };
+
+  /** Answer 503 and return false when no further session fits */
+  const hasRoom = (res: ServerResponse) => {
+    if (sessions.size >= maxSessions) {
+      closeIdleSessions();
+    }
+    if (sessions.size < maxSessions) {
+      return true;
+    }
+    sendError(res, 503, ErrorCode.InternalError, 'Too many sessions; try again later');
+    return false;
+  };
+
+  const handleMcp = async (req: IncomingMessage, res: ServerResponse) => {
+    const header = req.headers[SESSION_HEADER];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+    const found = findSession(sessionId);
+    const existing = found instanceof StreamableHttpServerTransport ? found : undefined;
+    if (sessionId && !existing) {
+      sendError(res, 404, ErrorCode.InvalidRequest, 'Session not found');
+      return;
+    }
+
+    if (req.method === 'GET') {
+      if (!existing) {
+        sendError(res, 400, ErrorCode.InvalidRequest, 'Missing Mcp-Session-Id header');
+      } else if (!(req.headers.accept ?? '').includes('text/event-stream')) {
+        sendError(res, 406, ErrorCode.InvalidRequest, 'GET requires Accept: text/event-stream');
+      } else {
+        existing.handleGet(res);
+      }
+      return;
+    }
+
+    if (req.method === 'DELETE') {
+      if (!existing) {
+        sendError(res, 400, ErrorCode.InvalidRequest, 'Missing Mcp-Session-Id header');
+        return;
+      }
+      await existing.close();
+      res.writeHead(200).end();
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendError(res, 400, ErrorCode.ParseError, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    const batch = Array.isArray(body);
+    const parsed = (batch ? body as unknown[] : [body]).map(message => JSONRPCMessageSchema.safeParse(message));
+    if (parsed.length === 0 || parsed.some(result => !result.success)) {
+      sendError(res, 400, ErrorCode.InvalidRequest, 'Invalid JSON-RPC message');
+      return;
+    }
+    const messages = parsed.map(result => result.data as JSONRPCMessage);
+
+    let transport = existing;
+    if (!transport) {
+      if (!messages.some(message => isRequest(message) && message.method === 'initialize')) {
+        sendError(res, 400, ErrorCode.InvalidRequest, 'Missing Mcp-Session-Id header');
+        return;
+      }
+      if (!hasRoom(res)) {
+        return;
+      }
+      transport = new StreamableHttpServerTransport();
+      await openSession(transport);
+    }
+
+    transport.handlePost(messages, batch, req, res);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      if (hasRoom(res)) {
+        await openSession(new SSEServerTransport('/messages', res));
+      }
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: url.pathname === '/sse' ? 'GET' : 'POST' }).end();
+      return;
+    }
+
+    const transport = findSession(url.searchParams.get('sessionId') ?? undefined);
+    if (!(transport instanceof SSEServerTransport)) {
+      res.writeHead(404).end('Session not found');
+      return;
+    }
+
+    // handlePostMessage has already answered when it throws
+    await transport.handlePostMessage(req, res).catch(() => {});
+  };
+
+  const server = createServer((req, res) => {
+    if (!isAllowedOrigin(req.headers.origin, allowedOrigins)) {
+      sendError(res, 403, ErrorCode.InvalidRequest, `Origin not allowed: ${req.headers.origin}`);
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const handled = url.pathname === '/mcp'
+      ? handleMcp(req, res)
+      : url.pathname === '/sse' || url.pathname === '/messages'
+        ? handleSse(req, res, url)
+        : Promise.resolve(void res.writeHead(404).end());
+
+    handled.catch(error => {
+      if (!res.headersSent) {
+        sendError(res, 500, ErrorCode.InternalError, error instanceof Error ? error.message : String(error));
+      }
+    });
+  });
+
+  const sweep = setInterval(closeIdleSessions, Math.min(sessionIdleMs, 60_000));
+  sweep.unref();
+  server.on('close', () => clearInterval(sweep));
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => resolve(server));
+  });
+}
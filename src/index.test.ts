@@ -1,4 +1,5 @@
 import { describe, test, expect } from 'bun:test';
+import { formatTimestamp } from './utils.js';
 
 // Mock data for testing
 const mockVideoInfo = {
@@ -119,13 +120,6 @@ function parseXMLTranscript(xmlContent: string): Array<{timestamp: string, text:
   return result;
 }
 
-function formatTimestamp(milliseconds: number): string {
-  const totalSeconds = Math.floor(milliseconds / 1000);
-  const minutes = Math.floor(totalSeconds / 60);
-  const seconds = totalSeconds % 60;
-  return `[${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}]`;
-}
-
 // Tests
 describe('DeepSRT MCP Server Utils', () => {
   describe('extractVideoId', () => {
@@ -188,7 +182,12 @@ describe('DeepSRT MCP Server Utils', () => {
       expect(formatTimestamp(0)).toBe('[00:00]');
       expect(formatTimestamp(30000)).toBe('[00:30]');
       expect(formatTimestamp(90000)).toBe('[01:30]');
-      expect(formatTimestamp(3661000)).toBe('[61:01]'); // Over 60 minutes
+    });
+
+    test('adds hours from 60 minutes on', () => {
+      expect(formatTimestamp(3599999)).toBe('[59:59]');
+      expect(formatTimestamp(3661000)).toBe('[01:01:01]');
+      expect(formatTimestamp(4503000)).toBe('[01:15:03]');
     });
   });
 
@@ -1,47 +1,97 @@
 #!/usr/bin/env bun
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   CallToolResultSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ProgressToken,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import axios from 'axios';
+import { DeepSRTClient } from './client.js';
+import { config } from './config.js';
+import { errorCode } from './errors.js';
+import {
+  formatBatchMarkdown,
+  formatCaptionListMarkdown,
+  formatChaptersMarkdown,
+  formatChannelVideosMarkdown,
+  formatPlaylistMarkdown,
+  formatSearchResultsMarkdown,
+  formatSummaryMarkdown,
+  formatThumbnailMarkdown,
+  formatTranscript,
+  formatTranscriptSearchMarkdown,
+  formatVideoInfoMarkdown,
+  isTranscriptFormat,
+  toBatchPayload,
+  toCaptionListPayload,
+  toPlaylistPayload,
+  toSummaryPayload,
+  toThumbnailPayload,
+  toTranscriptPayload,
+  toTranscriptSearchPayload,
+  toVideoInfoPayload,
+  TRANSCRIPT_FORMATS,
+} from './formatters.js';
+import { parseServerOptions, ServerOptions, startHttpServer } from './http.js';
+import { decodeChannelCursor } from './innertube.js';
+import { decodeCursor, paginateTranscript } from './pagination.js';
+import { buildPromptMessages, findPrompt, PROMPT_ARGUMENTS, VIDEO_PROMPTS } from './prompts.js';
+import {
+  parseResourceUri,
+  RecentResources,
+  RESOURCE_MIME_TYPE,
+  RESOURCE_TEMPLATES,
+  toResourceUri,
+  VideoResource,
+} from './resources.js';
+import { buildQueryPattern } from './search.js';
+import { isSegmentationMode, SEGMENTATION_MODES } from './segmentation.js';
+import type {
+  OutputMode,
+  PlaylistInclude,
+  ProgressUpdate,
+  SearchDuration,
+  SearchUploadDate,
+  SummaryMode,
+  ThumbnailResult,
+  ThumbnailSize,
+  TranscriptFormat,
+  TranscriptGroupBy,
+  TranscriptMatchMode,
+  TranscriptSegmentation,
+} from './types.js';
+import { extractVideoId, parseTimeToSeconds } from './utils.js';
 import { VERSION } from './version.js';
 
-type SummaryMode = 'narrative' | 'bullet';
+const THUMBNAIL_SIZES: ThumbnailSize[] = ['thumbnail', 'medium', 'large'];
 
-interface InnerTubeResponse {
-  videoDetails?: {
-    videoId: string;
-    title: string;
-    lengthSeconds: string;
-    channelId: string;
-    author: string;
-  };
-  captions?: {
-    playerCaptionsTracklistRenderer?: {
-      captionTracks?: Array<{
-        baseUrl: string;
-        name: { simpleText: string };
-        vssId: string;
-        languageCode: string;
-        kind?: string;
-        isTranslatable: boolean;
-      }>;
-    };
-  };
+/**
+ * Per-call state handed to every tool handler. The SDK aborts `signal` when
+ * the client cancels the request and then drops the handler's result.
+ */
+interface ToolCall {
+  signal: AbortSignal;
+  progressToken?: ProgressToken;
 }
 
 class DeepSRTServer {
   private server: Server;
-  private axiosInstance;
+  private client: DeepSRTClient;
+  private recentResources = new RecentResources(config.resources.maxRecent);
 
-  constructor() {
+  /** Sessions served over HTTP share one client, and with it the cache */
+  constructor(client: DeepSRTClient = new DeepSRTClient()) {
     this.server = new Server(
       {
         name: 'deepsrt-mcp',
@@ -50,15 +100,17 @@ class DeepSRTServer {
       {
         capabilities: {
           tools: {},
+          resources: { listChanged: true },
+          prompts: {},
         },
       }
     );
 
-    this.axiosInstance = axios.create({
-      timeout: 30000,
-    });
+    this.client = client;
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
   }
 
   private setupToolHandlers() {
@@ -86,6 +138,28 @@ class DeepSRTServer {
                   description: 'Summary mode (default: narrative)',
                   default: 'narrative',
                 },
+                includeThumbnail: {
+                  type: 'boolean',
+                  description: 'Also return the video thumbnail as an image (default: false)',
+                  default: false,
+                },
+                thumbnailSize: {
+                  type: 'string',
+                  enum: THUMBNAIL_SIZES,
+                  description: 'Thumbnail size with includeThumbnail: thumbnail (320x180), medium (640x360) or large (1280x720) (default: medium)',
+                  default: 'medium',
+                },
+                output: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'Set to "json" to also return a machine-readable JSON payload (default: markdown)',
+                  default: 'markdown',
+                },
+                refresh: {
+                  type: 'boolean',
+                  description: 'Bypass the local cache and fetch fresh data (default: false)',
+                  default: false,
+                },
               },
               required: ['videoId'],
             },
@@ -102,397 +176,1031 @@ class DeepSRTServer {
                 },
                 lang: {
                   type: 'string',
-                  description: 'Preferred language code for captions (default: en)',
+                  description: 'Preferred language code for captions (default: en). If the video has no track in this language, a translatable track is machine-translated into it',
+                  default: 'en',
+                },
+                start: {
+                  type: 'string',
+                  description: 'Only include the transcript from this time on, in seconds or HH:MM:SS (default: the URL\'s t= parameter)',
+                },
+                end: {
+                  type: 'string',
+                  description: 'Only include the transcript up to this time, in seconds or HH:MM:SS',
+                },
+                maxChars: {
+                  type: 'number',
+                  description: 'Split long transcripts into pages of at most this many characters and return a nextCursor',
+                },
+                maxSegments: {
+                  type: 'number',
+                  description: 'Split long transcripts into pages of at most this many segments and return a nextCursor',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor from a previous page; returns the following page',
+                },
+                segmentation: {
+                  type: 'string',
+                  enum: SEGMENTATION_MODES,
+                  description: 'raw: caption cues as served, sentence/paragraph: cues merged using punctuation, pauses and a maximum length, with light punctuation restored for auto-generated captions (default: raw)',
+                  default: 'raw',
+                },
+                links: {
+                  type: 'boolean',
+                  description: 'Render each markdown timestamp as a link that opens the video at that moment (default: false)',
+                  default: false,
+                },
+                groupBy: {
+                  type: 'string',
+                  enum: ['chapter'],
+                  description: 'Set to "chapter" to emit the transcript under a heading per video chapter (from YouTube chapter data or description timestamps)',
+                },
+                format: {
+                  type: 'string',
+                  enum: TRANSCRIPT_FORMATS,
+                  description: 'Output format: markdown, srt, vtt, json or txt (default: markdown)',
+                  default: 'markdown',
+                },
+                output: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'Set to "json" to also return a machine-readable JSON payload (default: markdown)',
+                  default: 'markdown',
+                },
+                refresh: {
+                  type: 'boolean',
+                  description: 'Bypass the local cache and fetch fresh data (default: false)',
+                  default: false,
+                },
+              },
+              required: ['videoId'],
+            },
+          },
+          {
+            name: 'list_captions',
+            description: 'List every caption track available for a YouTube video',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                videoId: {
+                  type: 'string',
+                  description: 'YouTube video ID or full YouTube URL',
+                },
+                output: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'Set to "json" to also return a machine-readable JSON payload (default: markdown)',
+                  default: 'markdown',
+                },
+                refresh: {
+                  type: 'boolean',
+                  description: 'Bypass the local cache and fetch fresh data (default: false)',
+                  default: false,
+                },
+              },
+              required: ['videoId'],
+            },
+          },
+          {
+            name: 'get_chapters',
+            description: 'List the chapters of a YouTube video with their time ranges',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                videoId: {
+                  type: 'string',
+                  description: 'YouTube video ID or full YouTube URL',
+                },
+                output: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'Set to "json" to also return a machine-readable JSON payload (default: markdown)',
+                  default: 'markdown',
+                },
+                refresh: {
+                  type: 'boolean',
+                  description: 'Bypass the local cache and fetch fresh data (default: false)',
+                  default: false,
+                },
+              },
+              required: ['videoId'],
+            },
+          },
+          {
+            name: 'get_playlist',
+            description: 'List the videos of a YouTube playlist in order, optionally with each video\'s transcript or summary',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                playlistId: {
+                  type: 'string',
+                  description: 'YouTube playlist ID or URL with a list= parameter',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of videos to list (default: 100)',
+                  default: 100,
+                },
+                include: {
+                  type: 'string',
+                  enum: ['transcript', 'summary'],
+                  description: 'Also fetch each video\'s transcript or summary. Videos that fail are reported without stopping the rest',
+                },
+                lang: {
+                  type: 'string',
+                  description: 'Caption language for transcripts, or target language for summaries',
+                },
+                mode: {
+                  type: 'string',
+                  enum: ['narrative', 'bullet'],
+                  description: 'Summary mode when include is "summary" (default: narrative)',
+                  default: 'narrative',
+                },
+                concurrency: {
+                  type: 'number',
+                  description: 'Videos fetched in parallel when include is set (default: 3, max: 10)',
+                  default: 3,
+                },
+                output: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'Set to "json" to also return a machine-readable JSON payload (default: markdown)',
+                  default: 'markdown',
+                },
+                refresh: {
+                  type: 'boolean',
+                  description: 'Bypass the local cache and fetch fresh data (default: false)',
+                  default: false,
+                },
+              },
+              required: ['playlistId'],
+            },
+          },
+          {
+            name: 'get_summaries',
+            description: 'Get summaries for several YouTube videos at once. Results are returned in input order; videos that fail are reported without stopping the rest',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                videoIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'YouTube video IDs or URLs (max 50)',
+                },
+                lang: {
+                  type: 'string',
+                  description: 'Language code (e.g., zh-tw)',
+                  default: 'zh-tw',
+                },
+                mode: {
+                  type: 'string',
+                  enum: ['narrative', 'bullet'],
+                  description: 'Summary mode',
+                  default: 'narrative',
+                },
+                concurrency: {
+                  type: 'number',
+                  description: 'Videos fetched in parallel (default: 3, max: 10)',
+                  default: 3,
+                },
+                output: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'Set to "json" to also return a machine-readable JSON payload (default: markdown)',
+                  default: 'markdown',
+                },
+                refresh: {
+                  type: 'boolean',
+                  description: 'Bypass the local cache and fetch fresh data (default: false)',
+                  default: false,
+                },
+              },
+              required: ['videoIds'],
+            },
+          },
+          {
+            name: 'get_transcripts',
+            description: 'Get transcripts for several YouTube videos at once. Results are returned in input order; videos that fail are reported without stopping the rest',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                videoIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'YouTube video IDs or URLs (max 50)',
+                },
+                lang: {
+                  type: 'string',
+                  description: 'Preferred caption language (e.g., en, zh-tw). Missing languages are machine-translated when possible',
                   default: 'en',
                 },
+                concurrency: {
+                  type: 'number',
+                  description: 'Videos fetched in parallel (default: 3, max: 10)',
+                  default: 3,
+                },
+                output: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'Set to "json" to also return a machine-readable JSON payload (default: markdown)',
+                  default: 'markdown',
+                },
+                refresh: {
+                  type: 'boolean',
+                  description: 'Bypass the local cache and fetch fresh data (default: false)',
+                  default: false,
+                },
+              },
+              required: ['videoIds'],
+            },
+          },
+          {
+            name: 'get_channel_videos',
+            description: 'List the most recent uploads of a YouTube channel with video ID, title, upload date and length',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                channel: {
+                  type: 'string',
+                  description: 'Channel ID (UC...), @handle or channel URL',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor from a previous page; returns older uploads',
+                },
+                output: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'Set to "json" to also return a machine-readable JSON payload (default: markdown)',
+                  default: 'markdown',
+                },
+                refresh: {
+                  type: 'boolean',
+                  description: 'Bypass the local cache and fetch fresh data (default: false)',
+                  default: false,
+                },
+              },
+              required: ['channel'],
+            },
+          },
+          {
+            name: 'search_videos',
+            description: 'Search YouTube for videos and return ranked results with video ID, title, channel, duration and caption availability',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: 'Search terms',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of results (default: 20, max: 100)',
+                  default: 20,
+                },
+                duration: {
+                  type: 'string',
+                  enum: ['short', 'medium', 'long'],
+                  description: 'Only videos under 4 minutes (short), 4-20 minutes (medium) or over 20 minutes (long)',
+                },
+                uploadDate: {
+                  type: 'string',
+                  enum: ['hour', 'today', 'week', 'month', 'year'],
+                  description: 'Only videos uploaded within this period',
+                },
+                output: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'Set to "json" to also return a machine-readable JSON payload (default: markdown)',
+                  default: 'markdown',
+                },
+                refresh: {
+                  type: 'boolean',
+                  description: 'Bypass the local cache and fetch fresh data (default: false)',
+                  default: false,
+                },
+              },
+              required: ['query'],
+            },
+          },
+          {
+            name: 'get_video_info',
+            description: 'Get full metadata for a YouTube video: description, keywords, view count, thumbnails, live/upcoming flags, playability status and caption tracks',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                videoId: {
+                  type: 'string',
+                  description: 'YouTube video ID or full YouTube URL',
+                },
+                output: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'Set to "json" to also return a machine-readable JSON payload (default: markdown)',
+                  default: 'markdown',
+                },
+                refresh: {
+                  type: 'boolean',
+                  description: 'Bypass the local cache and fetch fresh data (default: false)',
+                  default: false,
+                },
               },
               required: ['videoId'],
             },
           },
+          {
+            name: 'get_thumbnail',
+            description: 'Get the thumbnail of a YouTube video as an image',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                videoId: {
+                  type: 'string',
+                  description: 'YouTube video ID or full YouTube URL',
+                },
+                size: {
+                  type: 'string',
+                  enum: THUMBNAIL_SIZES,
+                  description: 'thumbnail (320x180), medium (640x360) or large (1280x720) (default: medium). A fallback image is returned when the video has no thumbnail at this size',
+                  default: 'medium',
+                },
+                output: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'Set to "json" to also return a machine-readable JSON payload (default: markdown)',
+                  default: 'markdown',
+                },
+                refresh: {
+                  type: 'boolean',
+                  description: 'Bypass the local cache and fetch fresh data (default: false)',
+                  default: false,
+                },
+              },
+              required: ['videoId'],
+            },
+          },
+          {
+            name: 'search_transcript',
+            description: 'Find where something is said in a YouTube video: returns each matching transcript line with context, its timestamp and a link that opens the video there',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                videoId: {
+                  type: 'string',
+                  description: 'YouTube video ID or full YouTube URL',
+                },
+                query: {
+                  type: 'string',
+                  description: 'Words, phrase or regular expression to look for (case-insensitive)',
+                },
+                match: {
+                  type: 'string',
+                  enum: ['words', 'phrase', 'regex'],
+                  description: 'words: every whole word in the same line, phrase: the exact words in order, regex: a JavaScript regular expression (default: words)',
+                  default: 'words',
+                },
+                context: {
+                  type: 'number',
+                  description: 'Transcript lines to show before and after each hit (default: 2, max: 10)',
+                  default: 2,
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of hits (default: 20, max: 200)',
+                  default: 20,
+                },
+                lang: {
+                  type: 'string',
+                  description: 'Preferred language code for captions (default: en)',
+                  default: 'en',
+                },
+                output: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'Set to "json" to also return a machine-readable JSON payload (default: markdown)',
+                  default: 'markdown',
+                },
+                refresh: {
+                  type: 'boolean',
+                  description: 'Bypass the local cache and fetch fresh data (default: false)',
+                  default: false,
+                },
+              },
+              required: ['videoId', 'query'],
+            },
+          },
         ],
       };
-    });
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, { signal }) => {
+      const call: ToolCall = { signal, progressToken: request.params._meta?.progressToken };
+      if (request.params.name === 'get_summary') {
+        return this.handleGetSummary(request.params.arguments, call);
+      } else if (request.params.name === 'get_transcript') {
+        return this.handleGetTranscript(request.params.arguments, call);
+      } else if (request.params.name === 'list_captions') {
+        return this.handleListCaptions(request.params.arguments, call);
+      } else if (request.params.name === 'get_chapters') {
+        return this.handleGetChapters(request.params.arguments, call);
+      } else if (request.params.name === 'get_playlist') {
+        return this.handleGetPlaylist(request.params.arguments, call);
+      } else if (request.params.name === 'get_summaries') {
+        return this.handleGetSummaries(request.params.arguments, call);
+      } else if (request.params.name === 'get_transcripts') {
+        return this.handleGetTranscripts(request.params.arguments, call);
+      } else if (request.params.name === 'get_channel_videos') {
+        return this.handleGetChannelVideos(request.params.arguments, call);
+      } else if (request.params.name === 'search_videos') {
+        return this.handleSearchVideos(request.params.arguments, call);
+      } else if (request.params.name === 'get_video_info') {
+        return this.handleGetVideoInfo(request.params.arguments, call);
+      } else if (request.params.name === 'get_thumbnail') {
+        return this.handleGetThumbnail(request.params.arguments, call);
+      } else if (request.params.name === 'search_transcript') {
+        return this.handleSearchTranscript(request.params.arguments, call);
+      } else {
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${request.params.name}`
+        );
+      }
+    });
+  }
+
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: this.recentResources.list(),
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request, { signal }) => {
+      const { uri } = request.params;
+      const resource = parseResourceUri(uri);
+      if (!resource) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown resource URI: ${uri}. Expected youtube://{videoId}/transcript?lang= or youtube://{videoId}/summary?lang=&mode=`
+        );
+      }
+
+      try {
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: RESOURCE_MIME_TYPE,
+              text: await this.readResource(resource, signal)
+            }
+          ]
+        };
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Error reading ${uri}: ${this.describeError(error)}`,
+          { errorCode: errorCode(error) }
+        );
+      }
+    });
+  }
+
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: VIDEO_PROMPTS.map(({ name, description }) => ({ name, description, arguments: PROMPT_ARGUMENTS })),
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request, { signal }) => {
+      const prompt = findPrompt(request.params.name);
+      if (!prompt) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown prompt: ${request.params.name}. Available: ${VIDEO_PROMPTS.map(({ name }) => name).join(', ')}`
+        );
+      }
+
+      const { videoId: videoInput, lang, audience } = request.params.arguments ?? {};
+      const videoId = videoInput ? extractVideoId(videoInput) : null;
+      if (!videoId) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid ${prompt.name} arguments. Required: videoId (YouTube video ID or URL)`);
+      }
+
+      const resource: VideoResource = { videoId, kind: prompt.source, ...(lang && { lang }) };
+      try {
+        const text = await this.readResource(resource, signal);
+        return {
+          description: prompt.description,
+          messages: buildPromptMessages(prompt, { videoId, lang, audience }, { uri: toResourceUri(resource), text }),
+        };
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Error preparing ${prompt.name}: ${this.describeError(error)}`,
+          { errorCode: errorCode(error) }
+        );
+      }
+    });
+  }
+
+  private async readResource(resource: VideoResource, signal?: AbortSignal): Promise<string> {
+    if (resource.kind === 'transcript') {
+      const result = await this.client.getTranscript(resource.videoId, { lang: resource.lang, signal });
+      this.rememberResource(resource, result.video.title);
+      return formatTranscript(result);
+    }
+
+    const result = await this.client.getSummary(resource.videoId, { lang: resource.lang, mode: resource.mode, signal });
+    this.rememberResource(resource, result.video.title);
+    return formatSummaryMarkdown(result);
+  }
+
+  /** List a fetched transcript or summary under resources/list */
+  private rememberResource(resource: VideoResource, title: string) {
+    if (this.recentResources.add(resource, title)) {
+      this.server.sendResourceListChanged().catch(() => {
+        // Not connected yet, or the client does not listen
+      });
+    }
+  }
+
+  /**
+   * Progress callback for a request, or undefined when the client did not
+   * send a `progressToken`
+   */
+  private progressReporter(progressToken: ProgressToken | undefined) {
+    if (progressToken === undefined) {
+      return undefined;
+    }
+
+    return ({ progress, total, message }: ProgressUpdate) => {
+      this.server.notification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message },
+      }).catch(() => {
+        // The client has gone away; the result will not be delivered either
+      });
+    };
+  }
+
+  private async handleGetSummary(args: any, { signal, progressToken }: ToolCall): Promise<CallToolResult> {
+    if (!this.isValidSummaryArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid summary arguments. Required: videoId'
+      );
+    }
+
+    try {
+      const [result, thumbnail] = await Promise.all([
+        this.client.getSummary(args.videoId, {
+          lang: args.lang,
+          mode: args.mode,
+          refresh: args.refresh,
+          signal,
+          onProgress: this.progressReporter(progressToken)
+        }),
+        // A missing thumbnail should not cost the caller the summary
+        args.includeThumbnail
+          ? this.client.getThumbnail(args.videoId, { size: args.thumbnailSize, refresh: args.refresh, signal }).catch(() => null)
+          : null
+      ]);
+
+      const formattedSummary = formatSummaryMarkdown(result);
+      this.rememberResource({ videoId: result.video.videoId, kind: 'summary', lang: args.lang, mode: args.mode }, result.video.title);
+
+      return {
+        content: [
+          ...(thumbnail ? [this.imageContent(thumbnail)] : []),
+          {
+            type: 'text',
+            text: formattedSummary
+          },
+          ...this.jsonContent(args.output, () => toSummaryPayload(result))
+        ]
+      };
+
+    } catch (error) {
+      return this.errorResult('getting summary', error);
+    }
+  }
+
+  private async handleGetTranscript(args: any, { signal }: ToolCall): Promise<CallToolResult> {
+    if (!this.isValidTranscriptArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid transcript arguments. Required: videoId (start/end must be seconds or HH:MM:SS, maxChars/maxSegments positive integers, cursor a nextCursor value, groupBy "chapter", segmentation raw|sentence|paragraph)'
+      );
+    }
+
+    try {
+      const result = await this.client.getTranscript(args.videoId, {
+        lang: args.lang,
+        start: this.toSeconds(args.start),
+        end: this.toSeconds(args.end),
+        groupBy: args.groupBy,
+        segmentation: args.segmentation,
+        refresh: args.refresh,
+        signal
+      });
+
+      this.rememberResource({ videoId: result.video.videoId, kind: 'transcript', lang: args.lang }, result.video.title);
+
+      const paginate = args.cursor !== undefined || args.maxChars !== undefined || args.maxSegments !== undefined;
+      const page = paginate ? paginateTranscript(result, args) : result;
+
+      const formattedTranscript = formatTranscript(page, args.format, { links: args.links });
+
+      // Markdown pages carry the cursor inline; other formats must stay valid files
+      const cursorContent = page.page?.nextCursor && (args.format ?? 'markdown') !== 'markdown'
+        ? [{ type: 'text' as const, text: `nextCursor: ${page.page.nextCursor}` }]
+        : [];
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formattedTranscript
+          },
+          ...cursorContent,
+          ...this.jsonContent(args.output, () => toTranscriptPayload(page))
+        ]
+      };
+
+    } catch (error) {
+      return this.errorResult('getting transcript', error);
+    }
+  }
+
+  private async handleListCaptions(args: any, { signal }: ToolCall): Promise<CallToolResult> {
+    if (!this.isValidVideoArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid list_captions arguments. Required: videoId'
+      );
+    }
+
+    try {
+      const result = await this.client.listCaptions(args.videoId, { refresh: args.refresh, signal });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatCaptionListMarkdown(result)
+          },
+          ...this.jsonContent(args.output, () => toCaptionListPayload(result))
+        ]
+      };
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      if (request.params.name === 'get_summary') {
-        return this.handleGetSummary(request.params.arguments);
-      } else if (request.params.name === 'get_transcript') {
-        return this.handleGetTranscript(request.params.arguments);
-      } else {
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Unknown tool: ${request.params.name}`
-        );
-      }
-    });
+    } catch (error) {
+      return this.errorResult('listing captions', error);
+    }
   }
 
-  private async handleGetSummary(args: any): Promise<CallToolResult> {
-    if (!this.isValidSummaryArgs(args)) {
+  private async handleGetChapters(args: any, { signal }: ToolCall): Promise<CallToolResult> {
+    if (!this.isValidVideoArgs(args)) {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid summary arguments. Required: videoId'
+        'Invalid get_chapters arguments. Required: videoId'
       );
     }
 
     try {
-      const videoId = args.videoId;
-      const lang = args.lang || 'zh-tw';
-      const mode = args.mode || 'narrative';
-
-      // Step 1: Get video info and captions from YouTube
-      const videoInfo = await this.getVideoInfo(videoId);
-      
-      if (!videoInfo.videoDetails) {
-        throw new Error('Could not fetch video details');
-      }
+      const result = await this.client.getChapters(args.videoId, { refresh: args.refresh, signal });
 
-      const { title, author, lengthSeconds } = videoInfo.videoDetails;
-      
-      // Step 2: Extract captions
-      const captionTracks = videoInfo.captions?.playerCaptionsTracklistRenderer?.captionTracks;
-      if (!captionTracks || captionTracks.length === 0) {
-        throw new Error('No captions available for this video');
-      }
-
-      // Step 3: Select best caption
-      const selectedCaption = this.selectBestCaption(captionTracks);
-      if (!selectedCaption) {
-        throw new Error('No suitable captions found');
-      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatChaptersMarkdown(result)
+          },
+          ...this.jsonContent(args.output, () => result)
+        ]
+      };
 
-      // Step 4: Extract transcript argument from caption URL
-      const transcriptArg = new URL(selectedCaption.baseUrl).search.slice(1);
+    } catch (error) {
+      return this.errorResult('getting chapters', error);
+    }
+  }
 
-      // Step 5: Call DeepSRT API for summarization
-      const summaryParams = new URLSearchParams({
-        v: videoId,
-        action: 'summarize',
-        lang: lang,
-        mode: mode
-      });
+  private async handleGetPlaylist(args: any, { signal }: ToolCall): Promise<CallToolResult> {
+    if (!this.isValidPlaylistArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid get_playlist arguments. Required: playlistId (limit/concurrency positive integers, include "transcript" or "summary")'
+      );
+    }
 
-      const titleParams = new URLSearchParams({
-        v: videoId,
-        txt: title,
-        action: 'translate',
-        lang: lang,
-        mode: mode
+    try {
+      const result = await this.client.getPlaylist(args.playlistId, {
+        limit: args.limit,
+        include: args.include,
+        lang: args.lang,
+        mode: args.mode,
+        concurrency: args.concurrency,
+        refresh: args.refresh,
+        signal
       });
 
-      const [summaryResponse, titleResponse] = await Promise.all([
-        this.axiosInstance.get(`https://worker.deepsrt.com/transcript2?${summaryParams}`, {
-          headers: {
-            'Accept': 'application/json',
-            'X-Transcript-Arg': transcriptArg,
-            'User-Agent': 'DeepSRT-CLI/1.5.4'
-          }
-        }),
-        this.axiosInstance.get(`https://worker.deepsrt.com/transcript2?${titleParams}`, {
-          headers: {
-            'Accept': 'application/json',
-            'X-Transcript-Arg': transcriptArg,
-            'User-Agent': 'DeepSRT-CLI/1.5.4'
-          }
-        })
-      ]);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatPlaylistMarkdown(result)
+          },
+          ...this.jsonContent(args.output, () => toPlaylistPayload(result))
+        ]
+      };
 
-      const summaryData = summaryResponse.data;
-      const titleData = titleResponse.data;
+    } catch (error) {
+      return this.errorResult('getting playlist', error);
+    }
+  }
 
-      // Format response
-      const translatedTitle = titleData.success ? 
-        (titleData.result || titleData.translation || title) : title;
-      
-      const summaryText = summaryData.summary || summaryData.result || summaryData.content;
+  private async handleGetSummaries(args: any, { signal }: ToolCall): Promise<CallToolResult> {
+    if (!this.isValidBatchArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid get_summaries arguments. Required: videoIds (1-${config.batch.maxItems} strings; concurrency a positive integer)`
+      );
+    }
 
-      if (!summaryText) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error getting summary: ${summaryData.error || 'No summary generated'}`
-            }
-          ],
-          isError: true
-        };
+    try {
+      const result = await this.client.getSummaries(args.videoIds, {
+        lang: args.lang,
+        mode: args.mode,
+        concurrency: args.concurrency,
+        refresh: args.refresh,
+        signal
+      });
+      for (const { summary } of result.items) {
+        if (summary) {
+          this.rememberResource({ videoId: summary.video.videoId, kind: 'summary', lang: args.lang, mode: args.mode }, summary.video.title);
+        }
       }
 
-      // Format summary with video information
-      const duration = Math.floor(parseInt(lengthSeconds) / 60) + ':' + 
-                      (parseInt(lengthSeconds) % 60).toString().padStart(2, '0');
-
-      const formattedSummary = `# ${translatedTitle}
-
-**Author:** ${author}  
-**Duration:** ${duration}  
-**Language:** ${lang}  
-**Mode:** ${mode}
-
-## Summary
-
-${summaryText}
-
----
-*Generated using DeepSRT MCP Server*`;
-
       return {
         content: [
           {
             type: 'text',
-            text: formattedSummary
-          }
+            text: formatBatchMarkdown(result)
+          },
+          ...this.jsonContent(args.output, () => toBatchPayload(result))
         ]
       };
 
     } catch (error) {
+      return this.errorResult('getting summaries', error);
+    }
+  }
+
+  private async handleGetTranscripts(args: any, { signal }: ToolCall): Promise<CallToolResult> {
+    if (!this.isValidBatchArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid get_transcripts arguments. Required: videoIds (1-${config.batch.maxItems} strings; concurrency a positive integer)`
+      );
+    }
+
+    try {
+      const result = await this.client.getTranscripts(args.videoIds, {
+        lang: args.lang,
+        concurrency: args.concurrency,
+        refresh: args.refresh,
+        signal
+      });
+      for (const { transcript } of result.items) {
+        if (transcript) {
+          this.rememberResource({ videoId: transcript.video.videoId, kind: 'transcript', lang: args.lang }, transcript.video.title);
+        }
+      }
+
       return {
         content: [
           {
             type: 'text',
-            text: `Error getting summary: ${error instanceof Error ? error.message : String(error)}`
-          }
-        ],
-        isError: true
+            text: formatBatchMarkdown(result)
+          },
+          ...this.jsonContent(args.output, () => toBatchPayload(result))
+        ]
       };
+
+    } catch (error) {
+      return this.errorResult('getting transcripts', error);
     }
   }
 
-  private async handleGetTranscript(args: any): Promise<CallToolResult> {
-    if (!this.isValidTranscriptArgs(args)) {
+  private async handleGetChannelVideos(args: any, { signal }: ToolCall): Promise<CallToolResult> {
+    if (!this.isValidChannelVideosArgs(args)) {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid transcript arguments. Required: videoId'
+        'Invalid get_channel_videos arguments. Required: channel (cursor must be a nextCursor value)'
       );
     }
 
     try {
-      // Extract video ID from URL or use directly
-      const videoId = this.extractVideoId(args.videoId);
-      if (!videoId) {
-        throw new Error('Invalid YouTube URL or video ID');
-      }
+      const result = await this.client.getChannelVideos(args.channel, {
+        cursor: args.cursor,
+        refresh: args.refresh,
+        signal
+      });
 
-      // Get video info from InnerTube API
-      const videoInfo = await this.getVideoInfo(videoId);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatChannelVideosMarkdown(result)
+          },
+          ...this.jsonContent(args.output, () => result)
+        ]
+      };
 
-      if (!videoInfo.videoDetails) {
-        throw new Error('Could not fetch video details');
-      }
+    } catch (error) {
+      return this.errorResult('getting channel videos', error);
+    }
+  }
 
-      const { title, author, lengthSeconds } = videoInfo.videoDetails;
-      const duration = `${Math.floor(parseInt(lengthSeconds) / 60)}:${(parseInt(lengthSeconds) % 60).toString().padStart(2, '0')}`;
+  private async handleSearchVideos(args: any, { signal }: ToolCall): Promise<CallToolResult> {
+    if (!this.isValidSearchArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid search_videos arguments. Required: query (limit a positive integer, duration short|medium|long, uploadDate hour|today|week|month|year)'
+      );
+    }
 
-      // Extract captions
-      const captionTracks = videoInfo.captions?.playerCaptionsTracklistRenderer?.captionTracks;
-      if (!captionTracks || captionTracks.length === 0) {
-        throw new Error('No captions available for this video');
-      }
+    try {
+      const result = await this.client.searchVideos(args.query, {
+        limit: args.limit,
+        duration: args.duration,
+        uploadDate: args.uploadDate,
+        refresh: args.refresh,
+        signal
+      });
 
-      // Select best caption
-      const selectedCaption = this.selectBestCaption(captionTracks, args.lang);
-      if (!selectedCaption) {
-        throw new Error('No suitable captions found');
-      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatSearchResultsMarkdown(result)
+          },
+          ...this.jsonContent(args.output, () => result)
+        ]
+      };
 
-      const captionType = selectedCaption.kind === 'asr' ? 'auto-generated' : 'manual';
+    } catch (error) {
+      return this.errorResult('searching videos', error);
+    }
+  }
 
-      // Fetch transcript content
-      const transcriptResponse = await this.axiosInstance.get(selectedCaption.baseUrl);
-      const parsedTranscript = this.parseXMLTranscript(transcriptResponse.data);
+  private async handleGetVideoInfo(args: any, { signal }: ToolCall): Promise<CallToolResult> {
+    if (!this.isValidVideoArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid get_video_info arguments. Required: videoId'
+      );
+    }
 
-      // Format response
-      const formattedTranscript = `# ${title}
+    try {
+      const result = await this.client.getVideoDetails(args.videoId, { refresh: args.refresh, signal });
 
-**Author:** ${author}  
-**Duration:** ${duration}  
-**Captions:** ${selectedCaption.name?.simpleText || selectedCaption.languageCode} (${captionType})
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatVideoInfoMarkdown(result)
+          },
+          ...this.jsonContent(args.output, () => toVideoInfoPayload(result))
+        ]
+      };
 
-## Transcript
+    } catch (error) {
+      return this.errorResult('getting video info', error);
+    }
+  }
 
-${parsedTranscript.map(segment => `${segment.timestamp} ${segment.text}`).join('\n')}
+  private async handleGetThumbnail(args: any, { signal }: ToolCall): Promise<CallToolResult> {
+    if (!this.isValidThumbnailArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid get_thumbnail arguments. Required: videoId (size must be thumbnail, medium or large)'
+      );
+    }
 
----
-*Generated using DeepSRT MCP Server*`;
+    try {
+      const result = await this.client.getThumbnail(args.videoId, { size: args.size, refresh: args.refresh, signal });
 
       return {
         content: [
+          this.imageContent(result),
           {
             type: 'text',
-            text: formattedTranscript
-          }
+            text: formatThumbnailMarkdown(result)
+          },
+          ...this.jsonContent(args.output, () => toThumbnailPayload(result))
         ]
       };
 
     } catch (error) {
+      return this.errorResult('getting thumbnail', error);
+    }
+  }
+
+  private async handleSearchTranscript(args: any, { signal }: ToolCall): Promise<CallToolResult> {
+    if (!this.isValidTranscriptSearchArgs(args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid search_transcript arguments. Required: videoId, query (match words|phrase|regex with a valid pattern of at most ${config.transcriptSearch.maxPatternLength} characters and no nested quantifiers, context a non-negative integer, limit a positive integer)`
+      );
+    }
+
+    try {
+      const result = await this.client.searchTranscript(args.videoId, args.query, {
+        match: args.match,
+        context: args.context,
+        limit: args.limit,
+        lang: args.lang,
+        refresh: args.refresh,
+        signal
+      });
+
       return {
         content: [
           {
             type: 'text',
-            text: `Error getting transcript: ${error instanceof Error ? error.message : String(error)}`
-          }
-        ],
-        isError: true
+            text: formatTranscriptSearchMarkdown(result)
+          },
+          ...this.jsonContent(args.output, () => toTranscriptSearchPayload(result))
+        ]
       };
-    }
-  }
 
-  // Helper methods
-  private extractVideoId(input: string): string | null {
-    // Handle direct video ID
-    if (input.length === 11 && !input.includes('/') && !input.includes('=')) {
-      return input;
-    }
-    
-    // Handle various YouTube URL formats
-    const patterns = [
-      /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/,
-      /youtube\.com\/watch\?.*v=([a-zA-Z0-9_-]{11})/
-    ];
-    
-    for (const pattern of patterns) {
-      const match = input.match(pattern);
-      if (match) {
-        return match[1];
-      }
+    } catch (error) {
+      return this.errorResult('searching transcript', error);
     }
-    
-    return null;
   }
 
-  private async getVideoInfo(videoId: string): Promise<InnerTubeResponse> {
-    const response = await this.axiosInstance.post('https://www.youtube.com/youtubei/v1/player', {
-      context: {
-        client: {
-          clientName: 'ANDROID',
-          clientVersion: '19.09.37',
-          androidSdkVersion: 30,
+  /**
+   * Failed tool call. Typed errors lead with their stable code and repeat it
+   * in `_meta.errorCode` so agents can branch without parsing the message.
+   */
+  private errorResult(action: string, error: unknown): CallToolResult {
+    const code = errorCode(error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error ${action}: ${this.describeError(error)}`
         }
-      },
-      videoId: videoId
-    });
-    
-    return response.data;
+      ],
+      isError: true,
+      ...(code && { _meta: { errorCode: code } })
+    };
+  }
+
+  private describeError(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = errorCode(error);
+    return code ? `[${code}] ${message}` : message;
   }
 
-  private selectBestCaption(captions: any[], preferredLang: string = 'en') {
-    if (!captions || captions.length === 0) {
-      return null;
+  private imageContent({ data, mimeType }: ThumbnailResult) {
+    return { type: 'image' as const, data, mimeType };
+  }
+
+  /**
+   * Extra content block carrying the structured payload when the caller
+   * asked for `output: "json"`
+   */
+  private jsonContent(output: OutputMode | undefined, payload: () => unknown) {
+    if (output !== 'json') {
+      return [];
     }
-    
-    // First, try to find manual captions in preferred language
-    const manualPreferred = captions.find(c => 
-      c.languageCode === preferredLang && !c.kind
-    );
-    if (manualPreferred) return manualPreferred;
-    
-    // Then try auto-generated in preferred language
-    const autoPreferred = captions.find(c => 
-      c.languageCode === preferredLang && c.kind === 'asr'
-    );
-    if (autoPreferred) return autoPreferred;
-    
-    // Fall back to any manual caption
-    const anyManual = captions.find(c => !c.kind);
-    if (anyManual) return anyManual;
-    
-    // Finally, any caption
-    return captions[0];
-  }
-
-  private parseXMLTranscript(xmlContent: string): Array<{timestamp: string, text: string}> {
-    const result: Array<{timestamp: string, text: string}> = [];
-    
-    // Handle YouTube's timedtext format
-    if (xmlContent.includes('<timedtext')) {
-      // Extract the body content
-      const bodyMatch = xmlContent.match(/<body>(.*?)<\/body>/s);
-      if (!bodyMatch) return result;
-      
-      const bodyContent = bodyMatch[1];
-      
-      // Find all <p> tags with their content
-      const pTagRegex = /<p[^>]*t="(\d+)"[^>]*>(.*?)<\/p>/gs;
-      let match;
-      
-      while ((match = pTagRegex.exec(bodyContent)) !== null) {
-        const startTime = parseInt(match[1]);
-        const pContent = match[2];
-        
-        // Skip empty paragraphs or paragraphs with only whitespace/newlines
-        if (!pContent.trim() || pContent.trim() === '') {
-          continue;
-        }
-        
-        // Extract text from <s> tags within this paragraph
-        const sTagRegex = /<s[^>]*>(.*?)<\/s>/g;
-        const syllables: string[] = [];
-        let sMatch;
-        
-        while ((sMatch = sTagRegex.exec(pContent)) !== null) {
-          let syllable = sMatch[1];
-          
-          // Decode HTML entities
-          syllable = syllable
-            .replace(/&amp;/g, '&')
-            .replace(/&lt;/g, '<')
-            .replace(/&gt;/g, '>')
-            .replace(/&quot;/g, '"')
-            .replace(/&#39;/g, "'")
-            .replace(/&nbsp;/g, ' ');
-          
-          syllables.push(syllable);
-        }
-        
-        // Reconstruct words from syllables
-        if (syllables.length > 0) {
-          const words: string[] = [];
-          let currentWord = '';
-          
-          for (const syllable of syllables) {
-            if (syllable.startsWith(' ')) {
-              // This syllable starts a new word
-              if (currentWord.trim()) {
-                words.push(currentWord.trim());
-              }
-              currentWord = syllable; // Keep the leading space for now
-            } else {
-              // This syllable continues the current word
-              currentWord += syllable;
-            }
-          }
-          
-          // Don't forget the last word
-          if (currentWord.trim()) {
-            words.push(currentWord.trim());
-          }
-          
-          // Join words with single spaces
-          const fullText = words.join(' ').trim();
-          
-          // Skip music notation and empty segments
-          if (fullText && !fullText.match(/^\[.*\]$/) && fullText !== '♪♪♪' && fullText.trim() !== '') {
-            const timestamp = this.formatTimestamp(startTime);
-            result.push({ timestamp, text: fullText });
-          }
-        }
+
+    return [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(payload(), null, 2)
       }
-    }
-    
-    return result;
+    ];
   }
 
-  private formatTimestamp(milliseconds: number): string {
-    const totalSeconds = Math.floor(milliseconds / 1000);
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = totalSeconds % 60;
-    return `[${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}]`;
+  private toSeconds(value: string | number | undefined): number | undefined {
+    return value === undefined ? undefined : parseTimeToSeconds(value) ?? undefined;
   }
 
   // Validation methods
   private isValidSummaryArgs(
     args: any
-  ): args is { videoId: string; lang?: string; mode?: SummaryMode } {
+  ): args is {
+    videoId: string;
+    lang?: string;
+    mode?: SummaryMode;
+    includeThumbnail?: boolean;
+    thumbnailSize?: ThumbnailSize;
+    output?: OutputMode;
+    refresh?: boolean;
+  } {
     return (
       typeof args === 'object' &&
       args !== null &&
@@ -501,28 +1209,244 @@ ${parsedTranscript.map(segment => `${segment.timestamp} ${segment.text}`).join('
       (args.lang === undefined || typeof args.lang === 'string') &&
       (args.mode === undefined ||
         args.mode === 'narrative' ||
-        args.mode === 'bullet')
+        args.mode === 'bullet') &&
+      (args.includeThumbnail === undefined || typeof args.includeThumbnail === 'boolean') &&
+      (args.thumbnailSize === undefined || THUMBNAIL_SIZES.includes(args.thumbnailSize)) &&
+      this.isValidOutput(args.output) &&
+      (args.refresh === undefined || typeof args.refresh === 'boolean')
     );
   }
 
   private isValidTranscriptArgs(
     args: any
-  ): args is { videoId: string; lang?: string } {
+  ): args is {
+    videoId: string;
+    lang?: string;
+    start?: string | number;
+    end?: string | number;
+    maxChars?: number;
+    maxSegments?: number;
+    cursor?: string;
+    groupBy?: TranscriptGroupBy;
+    segmentation?: TranscriptSegmentation;
+    links?: boolean;
+    format?: TranscriptFormat;
+    output?: OutputMode;
+    refresh?: boolean;
+  } {
+    return (
+      typeof args === 'object' &&
+      args !== null &&
+      typeof args.videoId === 'string' &&
+      args.videoId.length > 0 &&
+      (args.lang === undefined || typeof args.lang === 'string') &&
+      (args.start === undefined || parseTimeToSeconds(args.start) !== null) &&
+      (args.end === undefined || parseTimeToSeconds(args.end) !== null) &&
+      (args.maxChars === undefined || (Number.isInteger(args.maxChars) && args.maxChars > 0)) &&
+      (args.maxSegments === undefined || (Number.isInteger(args.maxSegments) && args.maxSegments > 0)) &&
+      (args.cursor === undefined || (typeof args.cursor === 'string' && decodeCursor(args.cursor) !== null)) &&
+      (args.groupBy === undefined || args.groupBy === 'chapter') &&
+      (args.segmentation === undefined || isSegmentationMode(args.segmentation)) &&
+      (args.links === undefined || typeof args.links === 'boolean') &&
+      (args.format === undefined || isTranscriptFormat(args.format)) &&
+      this.isValidOutput(args.output) &&
+      (args.refresh === undefined || typeof args.refresh === 'boolean')
+    );
+  }
+
+  private isValidVideoArgs(
+    args: any
+  ): args is { videoId: string; output?: OutputMode; refresh?: boolean } {
+    return (
+      typeof args === 'object' &&
+      args !== null &&
+      typeof args.videoId === 'string' &&
+      args.videoId.length > 0 &&
+      this.isValidOutput(args.output) &&
+      (args.refresh === undefined || typeof args.refresh === 'boolean')
+    );
+  }
+
+  private isValidThumbnailArgs(
+    args: any
+  ): args is { videoId: string; size?: ThumbnailSize; output?: OutputMode; refresh?: boolean } {
+    return (
+      typeof args === 'object' &&
+      args !== null &&
+      typeof args.videoId === 'string' &&
+      args.videoId.length > 0 &&
+      (args.size === undefined || THUMBNAIL_SIZES.includes(args.size)) &&
+      this.isValidOutput(args.output) &&
+      (args.refresh === undefined || typeof args.refresh === 'boolean')
+    );
+  }
+
+  private isValidTranscriptSearchArgs(
+    args: any
+  ): args is {
+    videoId: string;
+    query: string;
+    match?: TranscriptMatchMode;
+    context?: number;
+    limit?: number;
+    lang?: string;
+    output?: OutputMode;
+    refresh?: boolean;
+  } {
     return (
       typeof args === 'object' &&
       args !== null &&
       typeof args.videoId === 'string' &&
       args.videoId.length > 0 &&
-      (args.lang === undefined || typeof args.lang === 'string')
+      typeof args.query === 'string' &&
+      args.query.trim().length > 0 &&
+      (args.match === undefined || args.match === 'words' || args.match === 'phrase' || args.match === 'regex') &&
+      (args.match !== 'regex' || this.isValidPattern(args.query)) &&
+      (args.context === undefined || (Number.isInteger(args.context) && args.context >= 0)) &&
+      (args.limit === undefined || (Number.isInteger(args.limit) && args.limit > 0)) &&
+      (args.lang === undefined || typeof args.lang === 'string') &&
+      this.isValidOutput(args.output) &&
+      (args.refresh === undefined || typeof args.refresh === 'boolean')
+    );
+  }
+
+  private isValidPattern(pattern: string): boolean {
+    try {
+      buildQueryPattern(pattern, 'regex');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private isValidPlaylistArgs(
+    args: any
+  ): args is {
+    playlistId: string;
+    limit?: number;
+    include?: PlaylistInclude;
+    lang?: string;
+    mode?: SummaryMode;
+    concurrency?: number;
+    output?: OutputMode;
+    refresh?: boolean;
+  } {
+    return (
+      typeof args === 'object' &&
+      args !== null &&
+      typeof args.playlistId === 'string' &&
+      args.playlistId.length > 0 &&
+      (args.limit === undefined || (Number.isInteger(args.limit) && args.limit > 0)) &&
+      (args.include === undefined || args.include === 'transcript' || args.include === 'summary') &&
+      (args.lang === undefined || typeof args.lang === 'string') &&
+      (args.mode === undefined ||
+        args.mode === 'narrative' ||
+        args.mode === 'bullet') &&
+      (args.concurrency === undefined || (Number.isInteger(args.concurrency) && args.concurrency > 0)) &&
+      this.isValidOutput(args.output) &&
+      (args.refresh === undefined || typeof args.refresh === 'boolean')
+    );
+  }
+
+  private isValidBatchArgs(
+    args: any
+  ): args is {
+    videoIds: string[];
+    lang?: string;
+    mode?: SummaryMode;
+    concurrency?: number;
+    output?: OutputMode;
+    refresh?: boolean;
+  } {
+    return (
+      typeof args === 'object' &&
+      args !== null &&
+      Array.isArray(args.videoIds) &&
+      args.videoIds.length > 0 &&
+      args.videoIds.length <= config.batch.maxItems &&
+      args.videoIds.every((videoId: unknown) => typeof videoId === 'string' && videoId.length > 0) &&
+      (args.lang === undefined || typeof args.lang === 'string') &&
+      (args.mode === undefined ||
+        args.mode === 'narrative' ||
+        args.mode === 'bullet') &&
+      (args.concurrency === undefined || (Number.isInteger(args.concurrency) && args.concurrency > 0)) &&
+      this.isValidOutput(args.output) &&
+      (args.refresh === undefined || typeof args.refresh === 'boolean')
+    );
+  }
+
+  private isValidChannelVideosArgs(
+    args: any
+  ): args is { channel: string; cursor?: string; output?: OutputMode; refresh?: boolean } {
+    return (
+      typeof args === 'object' &&
+      args !== null &&
+      typeof args.channel === 'string' &&
+      args.channel.length > 0 &&
+      (args.cursor === undefined || (typeof args.cursor === 'string' && decodeChannelCursor(args.cursor) !== null)) &&
+      this.isValidOutput(args.output) &&
+      (args.refresh === undefined || typeof args.refresh === 'boolean')
+    );
+  }
+
+  private isValidSearchArgs(
+    args: any
+  ): args is {
+    query: string;
+    limit?: number;
+    duration?: SearchDuration;
+    uploadDate?: SearchUploadDate;
+    output?: OutputMode;
+    refresh?: boolean;
+  } {
+    return (
+      typeof args === 'object' &&
+      args !== null &&
+      typeof args.query === 'string' &&
+      args.query.trim().length > 0 &&
+      (args.limit === undefined || (Number.isInteger(args.limit) && args.limit > 0)) &&
+      (args.duration === undefined || ['short', 'medium', 'long'].includes(args.duration)) &&
+      (args.uploadDate === undefined || ['hour', 'today', 'week', 'month', 'year'].includes(args.uploadDate)) &&
+      this.isValidOutput(args.output) &&
+      (args.refresh === undefined || typeof args.refresh === 'boolean')
     );
   }
 
+  private isValidOutput(output: any): boolean {
+    return output === undefined || output === 'markdown' || output === 'json';
+  }
+
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
   async run() {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.connect(transport);
     // MCP server is now running silently on stdio
   }
 }
 
-const server = new DeepSRTServer();
-server.run().catch(console.error);
+let options: ServerOptions;
+try {
+  options = parseServerOptions(process.argv.slice(2));
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+if (options.transport === 'stdio') {
+  const server = new DeepSRTServer();
+  server.run().catch(console.error);
+} else {
+  const client = new DeepSRTClient();
+  startHttpServer(() => new DeepSRTServer(client), options)
+    .then(() => {
+      const base = `http://${options.host}:${options.port}`;
+      console.error(`DeepSRT MCP server listening on ${base}/mcp (Streamable HTTP) and ${base}/sse (SSE)`);
+    })
+    .catch(error => {
+      console.error('Failed to start HTTP server:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,100 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  buildSearchParams,
+  decodeChannelCursor,
+  encodeChannelCursor,
+  estimatePublishDate,
+  findRenderers,
+  parseSearchPage,
+  readText,
+} from './innertube.js';
+
+describe('InnerTube helpers', () => {
+  test('findRenderers collects renderers at any depth', () => {
+    const tree = {
+      a: [{ videoRenderer: { videoId: 'one' } }],
+      b: { c: { videoRenderer: { videoId: 'two', nested: { videoRenderer: { videoId: 'skipped' } } } } }
+    };
+
+    expect(findRenderers(tree, 'videoRenderer').map(renderer => renderer.videoId)).toEqual(['one', 'two']);
+  });
+
+  test('readText handles simpleText and runs', () => {
+    expect(readText({ simpleText: 'Plain' })).toBe('Plain');
+    expect(readText({ runs: [{ text: 'Split ' }, { text: 'title' }] })).toBe('Split title');
+    expect(readText(undefined)).toBe('');
+  });
+
+  test('estimatePublishDate converts relative upload times', () => {
+    const now = Date.UTC(2025, 0, 15, 12);
+
+    expect(estimatePublishDate('3 days ago', now)).toBe('2025-01-12');
+    expect(estimatePublishDate('Streamed 2 weeks ago', now)).toBe('2025-01-01');
+    expect(estimatePublishDate('1 year ago', now)).toBe('2024-01-16');
+    expect(estimatePublishDate('Premieres tomorrow', now)).toBeUndefined();
+  });
+
+  test('channel cursors round-trip and reject garbage', () => {
+    const cursor = encodeChannelCursor('UCabcdefghijklmnopqrstuv', 'Channel', 'token');
+
+    expect(decodeChannelCursor(cursor)).toEqual({ channelId: 'UCabcdefghijklmnopqrstuv', title: 'Channel', token: 'token' });
+    expect(decodeChannelCursor('not-a-cursor')).toBeNull();
+  });
+
+  test('buildSearchParams matches YouTube\'s filter tokens', () => {
+    expect(buildSearchParams()).toBe('EgIQAQ==');
+    expect(buildSearchParams({ uploadDate: 'week' })).toBe('EgQIAxAB');
+    expect(buildSearchParams({ duration: 'long' })).toBe('EgQQARgC');
+    expect(buildSearchParams({ uploadDate: 'today', duration: 'short' })).toBe('EgYIAhABGAE=');
+  });
+
+  test('parseSearchPage reads web and mobile video renderers', () => {
+    const page = parseSearchPage({
+      contents: [
+        {
+          videoRenderer: {
+            videoId: 'aaaaaaaaaaa',
+            title: { runs: [{ text: 'Web result' }] },
+            ownerText: { runs: [{ text: 'Web Channel', navigationEndpoint: { browseEndpoint: { browseId: 'UCweb' } } }] },
+            lengthText: { simpleText: '1:02:03' },
+            publishedTimeText: { simpleText: '2 months ago' },
+            viewCountText: { simpleText: '1,234 views' },
+            badges: [{ metadataBadgeRenderer: { label: 'CC' } }]
+          }
+        },
+        {
+          compactVideoRenderer: {
+            videoId: 'bbbbbbbbbbb',
+            title: { simpleText: 'Android result' },
+            longBylineText: { runs: [{ text: 'Android Channel' }] },
+            lengthText: { simpleText: '4:05' }
+          }
+        },
+        { continuationItemRenderer: { continuationEndpoint: { continuationCommand: { token: 'more' } } } }
+      ]
+    });
+
+    expect(page.continuation).toBe('more');
+    expect(page.videos).toEqual([
+      {
+        videoId: 'aaaaaaaaaaa',
+        title: 'Web result',
+        channel: 'Web Channel',
+        channelId: 'UCweb',
+        lengthSeconds: 3723,
+        duration: '62:03',
+        publishedText: '2 months ago',
+        viewCountText: '1,234 views',
+        hasCaptions: true
+      },
+      {
+        videoId: 'bbbbbbbbbbb',
+        title: 'Android result',
+        channel: 'Android Channel',
+        lengthSeconds: 245,
+        duration: '4:05',
+        hasCaptions: false
+      }
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * InnerTube browse and search helpers
+ * Renderer layouts shift between YouTube releases, so the parsers search the
+ * response tree for a renderer key instead of walking a fixed path.
+ */
+
+import type { ChapterMarker } from './chapters.js';
+import type { ChannelVideo, PlaylistVideo, SearchDuration, SearchResultVideo, SearchUploadDate } from './types.js';
+import { formatDuration, parseTimeToSeconds } from './utils.js';
+
+export const INNERTUBE_BROWSE_URL = 'https://www.youtube.com/youtubei/v1/browse';
+export const INNERTUBE_RESOLVE_URL = 'https://www.youtube.com/youtubei/v1/navigation/resolve_url';
+export const INNERTUBE_SEARCH_URL = 'https://www.youtube.com/youtubei/v1/search';
+export const INNERTUBE_NEXT_URL = 'https://www.youtube.com/youtubei/v1/next';
+
+/** Browse `params` selecting a channel's Videos tab */
+export const CHANNEL_VIDEOS_PARAMS = 'EgZ2aWRlb3PyBgQKAjoA';
+
+/** Client used for player and search requests */
+export const ANDROID_CLIENT_CONTEXT = {
+  client: {
+    clientName: 'ANDROID',
+    clientVersion: '19.09.37',
+    androidSdkVersion: 30,
+  },
+};
+
+/** Browse pages are only served in their full form to the web client */
+export const WEB_CLIENT_CONTEXT = {
+  client: {
+    clientName: 'WEB',
+    clientVersion: '2.20240726.00.00',
+    hl: 'en',
+  },
+};
+
+export interface PlaylistPage {
+  title?: string;
+  videos: Omit<PlaylistVideo, 'index'>[];
+  continuation?: string;
+}
+
+export interface ChannelVideosPage {
+  title?: string;
+  videos: ChannelVideo[];
+  continuation?: string;
+}
+
+export interface SearchPage {
+  videos: Omit<SearchResultVideo, 'rank'>[];
+  continuation?: string;
+}
+
+/** Values of the search filter protobuf fields */
+const UPLOAD_DATE_FILTERS: Record<SearchUploadDate, number> = { hour: 1, today: 2, week: 3, month: 4, year: 5 };
+const DURATION_FILTERS: Record<SearchDuration, number> = { short: 1, long: 2, medium: 3 };
+
+interface ChannelCursorState {
+  /** Channel ID */
+  c: string;
+  /** Channel title, which continuation pages do not repeat */
+  n: string;
+  /** InnerTube continuation token */
+  t: string;
+}
+
+/**
+ * Collect every object stored under `key` anywhere in the tree, without
+ * descending into the matches themselves
+ */
+export function findRenderers(node: unknown, key: string, found: any[] = []): any[] {
+  if (Array.isArray(node)) {
+    node.forEach(child => findRenderers(child, key, found));
+  } else if (node && typeof node === 'object') {
+    for (const [childKey, child] of Object.entries(node)) {
+      if (childKey === key) {
+        found.push(child);
+      } else {
+        findRenderers(child, key, found);
+      }
+    }
+  }
+  return found;
+}
+
+/** Text of a `{ simpleText }` or `{ runs: [{ text }] }` field */
+export function readText(field: any): string {
+  if (!field) return '';
+  if (typeof field.simpleText === 'string') return field.simpleText;
+  if (Array.isArray(field.runs)) return field.runs.map((run: any) => run.text ?? '').join('');
+  return '';
+}
+
+export function findContinuationToken(node: unknown): string | undefined {
+  return findRenderers(node, 'continuationCommand')[0]?.token
+    ?? findRenderers(node, 'nextContinuationData')[0]?.continuation;
+}
+
+/** One page of a playlist, either the initial browse response or a continuation */
+export function parsePlaylistPage(data: any): PlaylistPage {
+  const title = data?.metadata?.playlistMetadataRenderer?.title
+    || readText(findRenderers(data?.header, 'title')[0])
+    || undefined;
+
+  const videos = findRenderers(data, 'playlistVideoRenderer')
+    .filter(renderer => renderer?.videoId)
+    .map(renderer => {
+      const lengthSeconds = parseInt(renderer.lengthSeconds) || parseTimeToSeconds(readText(renderer.lengthText)) || 0;
+      return {
+        videoId: renderer.videoId as string,
+        title: readText(renderer.title),
+        author: readText(renderer.shortBylineText),
+        lengthSeconds,
+        duration: formatDuration(lengthSeconds),
+      };
+    });
+
+  const continuation = findContinuationToken(data);
+
+  return {
+    ...(title && { title }),
+    videos,
+    ...(continuation && { continuation }),
+  };
+}
+
+/** One page of a channel's Videos tab, newest first */
+export function parseChannelVideosPage(data: any, now: number = Date.now()): ChannelVideosPage {
+  const title = data?.metadata?.channelMetadataRenderer?.title || undefined;
+
+  const videos = findRenderers(data, 'videoRenderer')
+    .filter(renderer => renderer?.videoId)
+    .map(renderer => {
+      const lengthSeconds = parseTimeToSeconds(readText(renderer.lengthText)) || 0;
+      const publishedText = readText(renderer.publishedTimeText);
+      const publishedAt = publishedText ? estimatePublishDate(publishedText, now) : undefined;
+      return {
+        videoId: renderer.videoId as string,
+        title: readText(renderer.title),
+        lengthSeconds,
+        duration: formatDuration(lengthSeconds),
+        ...(publishedText && { publishedText }),
+        ...(publishedAt && { publishedAt }),
+      };
+    });
+
+  const continuation = findContinuationToken(data);
+
+  return {
+    ...(title && { title }),
+    videos,
+    ...(continuation && { continuation }),
+  };
+}
+
+/**
+ * Turn YouTube's relative upload time ("3 days ago", "Streamed 2 weeks ago")
+ * into an approximate `YYYY-MM-DD` date
+ */
+export function estimatePublishDate(publishedText: string, now: number = Date.now()): string | undefined {
+  const match = publishedText.match(/(\d+)\s+(second|minute|hour|day|week|month|year)s?\s+ago/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const unitSeconds: Record<string, number> = {
+    second: 1,
+    minute: 60,
+    hour: 3600,
+    day: 86400,
+    week: 604800,
+    month: 2592000,
+    year: 31536000,
+  };
+
+  const elapsedMs = parseInt(match[1]) * unitSeconds[match[2].toLowerCase()] * 1000;
+  return new Date(now - elapsedMs).toISOString().slice(0, 10);
+}
+
+export function encodeChannelCursor(channelId: string, title: string, token: string): string {
+  const state: ChannelCursorState = { c: channelId, n: title, t: token };
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+export function decodeChannelCursor(cursor: string): { channelId: string; title: string; token: string } | null {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof state?.c !== 'string' || typeof state.t !== 'string') {
+      return null;
+    }
+    return { channelId: state.c, title: typeof state.n === 'string' ? state.n : state.c, token: state.t };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Search `params`: a protobuf filter message (field 2) that always restricts
+ * results to videos and optionally adds upload date and duration filters
+ */
+export function buildSearchParams(filters: { uploadDate?: SearchUploadDate; duration?: SearchDuration } = {}): string {
+  const fields = [
+    ...(filters.uploadDate ? [0x08, UPLOAD_DATE_FILTERS[filters.uploadDate]] : []),
+    0x10, 1,
+    ...(filters.duration ? [0x18, DURATION_FILTERS[filters.duration]] : []),
+  ];
+
+  return Buffer.from([0x12, fields.length, ...fields]).toString('base64');
+}
+
+/**
+ * Video results of a search page. Web, Android and mobile clients name the
+ * renderer differently but share its fields.
+ */
+export function parseSearchPage(data: any): SearchPage {
+  const renderers = ['videoRenderer', 'compactVideoRenderer', 'videoWithContextRenderer']
+    .flatMap(key => findRenderers(data, key))
+    .filter(renderer => renderer?.videoId);
+
+  const videos = renderers.map(renderer => {
+    const owner = renderer.ownerText || renderer.longBylineText || renderer.shortBylineText;
+    const channelId = findRenderers(owner, 'browseEndpoint')[0]?.browseId;
+    const lengthSeconds = parseTimeToSeconds(readText(renderer.lengthText)) || 0;
+    const publishedText = readText(renderer.publishedTimeText);
+    const viewCountText = readText(renderer.viewCountText) || readText(renderer.shortViewCountText);
+    const badges = findRenderers(renderer.badges, 'metadataBadgeRenderer').map(badge => badge.label);
+
+    return {
+      videoId: renderer.videoId as string,
+      title: readText(renderer.title) || readText(renderer.headline),
+      channel: readText(owner),
+      ...(channelId && { channelId }),
+      lengthSeconds,
+      duration: formatDuration(lengthSeconds),
+      ...(publishedText && { publishedText }),
+      ...(viewCountText && { viewCountText }),
+      hasCaptions: badges.some(label => label === 'CC' || label === 'Subtitles'),
+    };
+  });
+
+  const continuation = findContinuationToken(data);
+
+  return {
+    videos,
+    ...(continuation && { continuation }),
+  };
+}
+
+/** Chapter markers from a `next` response's player bar, in video order */
+export function parseChapterMarkers(data: any): ChapterMarker[] {
+  const seen = new Set<number>();
+
+  return findRenderers(data, 'chapterRenderer')
+    .filter(renderer => typeof renderer?.timeRangeStartMillis === 'number')
+    .map(renderer => ({ title: readText(renderer.title), startSeconds: renderer.timeRangeStartMillis / 1000 }))
+    .filter(marker => {
+      // The same chapters are repeated for every player bar layout
+      if (seen.has(marker.startSeconds)) return false;
+      seen.add(marker.startSeconds);
+      return true;
+    })
+    .sort((a, b) => a.startSeconds - b.startSeconds);
+}
@@ -0,0 +1,20 @@
+/**
+ * DeepSRT library entry point
+ * Import this module to use DeepSRT from Node services without the CLI or MCP
+ *
+ * Usage:
+ *   import { DeepSRTClient } from '@deepsrt/deepsrt-mcp';
+ *   const client = new DeepSRTClient();
+ *   const { segments } = await client.getTranscript('dQw4w9WgXcQ', { lang: 'en' });
+ */
+
+export { DiskCache, defaultCacheDirectory } from './cache.js';
+export type { CacheNamespace, CacheStats } from './cache.js';
+export { DeepSRTClient } from './client.js';
+export type { DeepSRTClientOptions } from './client.js';
+export * from './errors.js';
+export * from './formatters.js';
+export * from './timedtext.js';
+export * from './types.js';
+export * from './utils.js';
+export { VERSION } from './version.js';
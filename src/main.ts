@@ -5,8 +5,17 @@
  * 
  * Usage:
  *   bunx @deepsrt/deepsrt-mcp [--server]                 # Run MCP server (default)
+ *   bunx @deepsrt/deepsrt-mcp --transport=http --port=3000 # Run MCP server over HTTP
  *   bunx @deepsrt/deepsrt-mcp get-transcript <video-url> # CLI transcript
  *   bunx @deepsrt/deepsrt-mcp get-summary <video-url>    # CLI summary
+ *   bunx @deepsrt/deepsrt-mcp list-captions <video-url>  # CLI caption tracks
+ *   bunx @deepsrt/deepsrt-mcp get-video-info <video-url> # CLI video metadata
+ *   bunx @deepsrt/deepsrt-mcp get-chapters <video-url>   # CLI video chapters
+ *   bunx @deepsrt/deepsrt-mcp get-playlist <playlist-url> # CLI playlist videos
+ *   bunx @deepsrt/deepsrt-mcp get-channel-videos <channel> # CLI channel uploads
+ *   bunx @deepsrt/deepsrt-mcp search "<query>"           # CLI video search
+ *   bunx @deepsrt/deepsrt-mcp search-transcript <video-url> "<query>" # CLI transcript search
+ *   bunx @deepsrt/deepsrt-mcp cache <clear|stats>        # CLI cache management
  */
 
 import { spawn } from 'child_process';
@@ -18,16 +27,20 @@ import { VERSION } from './version.js';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+const SERVER_FLAG = /^--(server|transport|port|host)(=|$)/;
+
+const CLI_COMMANDS = ['get-transcript', 'get-summary', 'list-captions', 'get-chapters', 'get-video-info', 'get-playlist', 'get-channel-videos', 'search', 'search-transcript', 'cache'];
+
 async function main() {
   const args = process.argv.slice(2);
   
   if (args.length === 0) {
     // Default to server mode when no arguments
     await runMCPServer();
-  } else if (args[0] === '--server') {
-    // Explicit server mode
+  } else if (SERVER_FLAG.test(args[0])) {
+    // Explicit server mode; index.ts reads the transport flags
     await runMCPServer();
-  } else if (args[0] === 'get-transcript' || args[0] === 'get-summary') {
+  } else if (CLI_COMMANDS.includes(args[0])) {
     // CLI mode
     runCLI(args);
   } else if (args[0] === '--help' || args[0] === '-h') {
@@ -73,24 +86,63 @@ function showHelp() {
   console.log(`🚀 DeepSRT MCP Tool v${VERSION}\n`);
   console.log(`Usage:`);
   console.log(`  bunx @deepsrt/deepsrt-mcp [--server]                         # Run MCP server (default)`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp --transport=http [--port=<n>]      # Run MCP server over HTTP`);
   console.log(`  bunx @deepsrt/deepsrt-mcp get-transcript <video-url> [opts]  # Extract transcript`);
-  console.log(`  bunx @deepsrt/deepsrt-mcp get-summary <video-url> [opts]     # Generate summary\n`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp get-summary <video-url> [opts]     # Generate summary`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp list-captions <video-url>          # List caption tracks`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp get-video-info <video-url>         # Show video metadata`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp get-chapters <video-url>           # List video chapters`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp get-playlist <playlist-url>        # List playlist videos`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp get-channel-videos <channel>       # List channel uploads`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp search "<query>"                   # Search videos`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp search-transcript <video-url> "<q>" # Search a transcript`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp cache <clear|stats>                # Manage the local cache\n`);
   console.log(`MCP Server Mode:`);
   console.log(`  --server          Start MCP server for Claude Desktop/Cline integration`);
-  console.log(`                    (This is the default mode when no arguments provided)\n`);
+  console.log(`                    (This is the default mode when no arguments provided)`);
+  console.log(`  --transport=<t>   stdio (default), or http to serve many clients at once over`);
+  console.log(`                    Streamable HTTP (/mcp) and legacy SSE (/sse); sse is an alias`);
+  console.log(`  --port=<n>        HTTP port (default: 3000)`);
+  console.log(`  --host=<host>     HTTP bind address (default: 127.0.0.1)\n`);
   console.log(`CLI Commands:`);
   console.log(`  get-transcript    Extract transcript with timestamps`);
-  console.log(`  get-summary       Generate video summary\n`);
+  console.log(`  get-summary       Generate video summary`);
+  console.log(`  list-captions     List available caption tracks`);
+  console.log(`  get-video-info    Show full video metadata`);
+  console.log(`  get-chapters      List video chapters`);
+  console.log(`  get-playlist      List a playlist's videos, optionally with transcripts or summaries`);
+  console.log(`  get-channel-videos List a channel's recent uploads (channel ID, @handle or URL)`);
+  console.log(`  search            Search YouTube videos`);
+  console.log(`  search-transcript Find where words are said in a video, with links to each hit`);
+  console.log(`  cache             Manage the local cache: clear|stats\n`);
   console.log(`CLI Options:`);
   console.log(`  --lang=<lang>     Target language (default: en for transcript, zh-tw for summary)`);
-  console.log(`  --mode=<mode>     Summary mode: narrative|bullet (default: narrative)\n`);
+  console.log(`  --mode=<mode>     Summary mode: narrative|bullet (default: narrative)`);
+  console.log(`  --format=<fmt>    Transcript format: markdown|srt|vtt|json|txt`);
+  console.log(`  --start=<time>    Transcript start, seconds or HH:MM:SS`);
+  console.log(`  --end=<time>      Transcript end, seconds or HH:MM:SS`);
+  console.log(`  --group-by=chapter Group the transcript under a heading per chapter`);
+  console.log(`  --segmentation=<mode> Transcript lines: raw|sentence|paragraph (default: raw)`);
+  console.log(`  --links           Print each transcript timestamp as a Markdown link to that moment`);
+  console.log(`  --include=<what>  get-playlist: also fetch each video's transcript|summary`);
+  console.log(`  --limit=<n>       get-playlist/search/search-transcript: maximum number of results (default: 100/20/20)`);
+  console.log(`  --concurrency=<n> get-playlist: videos fetched in parallel (default: 3)`);
+  console.log(`  --cursor=<cursor> get-channel-videos: continue from a previous page`);
+  console.log(`  --duration=<len>  search: short (<4 min), medium (4-20 min) or long (>20 min)`);
+  console.log(`  --upload-date=<p> search: hour, today, week, month or year`);
+  console.log(`  --match=<mode>    search-transcript: words, phrase or regex (default: words)`);
+  console.log(`  --context=<n>     search-transcript: lines shown around each hit (default: 2)`);
+  console.log(`  --refresh         Fetch fresh data and update the cache`);
+  console.log(`  --no-cache        Do not read or write the cache\n`);
   console.log(`Examples:`);
   console.log(`  # MCP Server (for Claude Desktop/Cline)`);
   console.log(`  bunx @deepsrt/deepsrt-mcp`);
-  console.log(`  bunx @deepsrt/deepsrt-mcp --server\n`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp --server`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp --transport=http --port=3000 --host=0.0.0.0\n`);
   console.log(`  # CLI Usage`);
   console.log(`  bunx @deepsrt/deepsrt-mcp get-transcript https://www.youtube.com/watch?v=dQw4w9WgXcQ`);
   console.log(`  bunx @deepsrt/deepsrt-mcp get-transcript dQw4w9WgXcQ --lang=en`);
+  console.log(`  bunx @deepsrt/deepsrt-mcp get-transcript dQw4w9WgXcQ --format=srt > captions.srt`);
   console.log(`  bunx @deepsrt/deepsrt-mcp get-summary dQw4w9WgXcQ --lang=zh-tw --mode=bullet`);
   console.log(`  bunx @deepsrt/deepsrt-mcp get-summary https://youtu.be/dQw4w9WgXcQ --lang=ja\n`);
   console.log(`  # Global Installation`);
@@ -0,0 +1,83 @@
+import { describe, test, expect } from 'bun:test';
+import { decodeCursor, encodeCursor, paginateTranscript } from './pagination.js';
+import { formatTranscript } from './formatters.js';
+import type { TranscriptResult } from './types.js';
+
+const mockResult: TranscriptResult = {
+  video: {
+    videoId: 'dQw4w9WgXcQ',
+    title: 'Long Podcast',
+    author: 'Test Author',
+    channelId: 'UC123',
+    lengthSeconds: 10800,
+    duration: '180:00'
+  },
+  captions: [],
+  caption: {
+    baseUrl: 'https://www.youtube.com/api/timedtext?v=dQw4w9WgXcQ&lang=en',
+    name: { simpleText: 'English' },
+    vssId: '.en',
+    languageCode: 'en',
+    isTranslatable: true
+  },
+  segments: Array.from({ length: 5 }, (_, i) => ({
+    timestamp: `[00:0${i}]`,
+    startMs: i * 1000,
+    durationMs: 1000,
+    text: `Segment number ${i + 1}`
+  }))
+};
+
+describe('Transcript pagination', () => {
+  test('cursor round-trips', () => {
+    const cursor = encodeCursor({ v: 'dQw4w9WgXcQ', o: 3, s: 2 });
+    expect(decodeCursor(cursor)).toEqual({ v: 'dQw4w9WgXcQ', o: 3, s: 2 });
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+  });
+
+  test('splits by maxSegments and walks the cursor to the end', () => {
+    const first = paginateTranscript(mockResult, { maxSegments: 2 });
+    expect(first.segments.map(s => s.text)).toEqual(['Segment number 1', 'Segment number 2']);
+    expect(first.page).toMatchObject({ offset: 0, count: 2, totalSegments: 5 });
+
+    // The cursor remembers the page size
+    const second = paginateTranscript(mockResult, { cursor: first.page!.nextCursor });
+    expect(second.segments.map(s => s.text)).toEqual(['Segment number 3', 'Segment number 4']);
+
+    const last = paginateTranscript(mockResult, { cursor: second.page!.nextCursor });
+    expect(last.segments.map(s => s.text)).toEqual(['Segment number 5']);
+    expect(last.page?.nextCursor).toBeUndefined();
+  });
+
+  test('splits by maxChars but always returns at least one segment', () => {
+    // Each line is "[00:0N] Segment number N" plus separator, 26 characters
+    expect(paginateTranscript(mockResult, { maxChars: 60 }).page?.count).toBe(2);
+    expect(paginateTranscript(mockResult, { maxChars: 5 }).page?.count).toBe(1);
+  });
+
+  test('rejects cursors from another video', () => {
+    const cursor = encodeCursor({ v: 'otherVideo1', o: 1 });
+    expect(() => paginateTranscript(mockResult, { cursor })).toThrow('Cursor does not belong to this video');
+  });
+
+  test('rejects cursors issued for different arguments', () => {
+    const cursor = paginateTranscript(mockResult, { maxSegments: 2 }).page!.nextCursor;
+    const sliced: TranscriptResult = { ...mockResult, range: { startSeconds: 1 }, segments: mockResult.segments.slice(1) };
+    const translated: TranscriptResult = { ...mockResult, translation: { sourceLanguageCode: 'en', targetLanguageCode: 'ko' } };
+    const merged: TranscriptResult = { ...mockResult, segmentation: 'sentence' };
+
+    expect(() => paginateTranscript(sliced, { cursor })).toThrow('Cursor was issued for a different');
+    expect(() => paginateTranscript(translated, { cursor })).toThrow('Cursor was issued for a different');
+    expect(() => paginateTranscript(merged, { cursor })).toThrow('Cursor was issued for a different');
+    expect(() => paginateTranscript(mockResult, { cursor: encodeCursor({ v: 'dQw4w9WgXcQ', o: 2 }) })).toThrow('Cursor was issued for a different');
+  });
+
+  test('markdown pages keep the video header and show the next cursor', () => {
+    const page = paginateTranscript(mockResult, { maxSegments: 2 });
+    const output = formatTranscript(page);
+
+    expect(output).toContain('# Long Podcast');
+    expect(output).toContain('**Page:** segments 1–2 of 5');
+    expect(output).toContain(`cursor: \`${page.page!.nextCursor}\``);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Cursor-based pagination for long transcripts
+ * Pages are cut on segment boundaries; the cursor is an opaque base64url
+ * token carrying the video, the next offset, the page size and a fingerprint
+ * of the arguments that shaped the transcript.
+ */
+
+import { createHash } from 'node:crypto';
+import type { TranscriptResult, TranscriptSegment } from './types.js';
+
+export interface PaginationOptions {
+  cursor?: string;
+  /** Maximum characters of transcript lines per page */
+  maxChars?: number;
+  /** Maximum segments per page */
+  maxSegments?: number;
+}
+
+interface CursorState {
+  v: string;
+  o: number;
+  c?: number;
+  s?: number;
+  /** transcriptShape() of the transcript the cursor was issued for */
+  a?: string;
+}
+
+export function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): CursorState | null {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof state?.v !== 'string' || !Number.isInteger(state.o) || state.o < 0) {
+      return null;
+    }
+    return state;
+  } catch {
+    return null;
+  }
+}
+
+export function paginateTranscript(result: TranscriptResult, options: PaginationOptions): TranscriptResult {
+  let offset = 0;
+  let maxChars = options.maxChars;
+  let maxSegments = options.maxSegments;
+
+  if (options.cursor) {
+    const state = decodeCursor(options.cursor);
+    if (!state) {
+      throw new Error('Invalid cursor');
+    }
+    if (state.v !== result.video.videoId) {
+      throw new Error('Cursor does not belong to this video');
+    }
+    if (state.a !== transcriptShape(result)) {
+      throw new Error('Cursor was issued for a different language, time range, segmentation or grouping; repeat those arguments or start over without a cursor');
+    }
+    offset = state.o;
+    maxChars = maxChars ?? state.c;
+    maxSegments = maxSegments ?? state.s;
+  }
+
+  const count = pageLength(result.segments.slice(offset), maxChars, maxSegments);
+  const nextOffset = offset + count;
+  const nextCursor = nextOffset < result.segments.length
+    ? encodeCursor({
+        v: result.video.videoId,
+        o: nextOffset,
+        a: transcriptShape(result),
+        ...(maxChars !== undefined && { c: maxChars }),
+        ...(maxSegments !== undefined && { s: maxSegments }),
+      })
+    : undefined;
+
+  return {
+    ...result,
+    segments: result.segments.slice(offset, nextOffset),
+    page: {
+      offset,
+      count,
+      totalSegments: result.segments.length,
+      ...(nextCursor && { nextCursor }),
+    },
+  };
+}
+
+/**
+ * Short hash of what decides the segment list (caption track, translation,
+ * time range, segmentation and grouping), so a cursor cannot be replayed
+ * against a transcript whose offsets mean something else
+ */
+function transcriptShape(result: TranscriptResult): string {
+  const shape = [
+    result.caption.vssId,
+    result.translation?.targetLanguageCode ?? null,
+    result.range?.startSeconds ?? null,
+    result.range?.endSeconds ?? null,
+    result.segmentation ?? null,
+    result.chapters ? 'chapter' : null,
+    result.segments.length,
+  ];
+  return createHash('sha256').update(JSON.stringify(shape)).digest('base64url').slice(0, 12);
+}
+
+/**
+ * Number of segments that fit the limits; always at least one so a
+ * single oversized segment cannot stall pagination
+ */
+function pageLength(segments: TranscriptSegment[], maxChars?: number, maxSegments?: number): number {
+  const segmentLimit = Math.min(maxSegments ?? Infinity, segments.length);
+  let chars = 0;
+  let count = 0;
+
+  while (count < segmentLimit) {
+    const segment = segments[count];
+    chars += segment.timestamp.length + segment.text.length + 2;
+    if (maxChars !== undefined && chars > maxChars && count > 0) {
+      break;
+    }
+    count++;
+  }
+
+  return count;
+}
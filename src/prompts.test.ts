@@ -0,0 +1,39 @@
+import { describe, test, expect } from 'bun:test';
+import { buildPromptMessages, findPrompt, VIDEO_PROMPTS } from './prompts.js';
+
+const content = { uri: 'youtube://dQw4w9WgXcQ/transcript?lang=en', text: '# Test Video\n\n[00:00] Hello world' };
+
+describe('MCP prompts', () => {
+  test('every prompt has a unique name and embeds a transcript or summary', () => {
+    const names = VIDEO_PROMPTS.map(prompt => prompt.name);
+
+    expect(new Set(names).size).toBe(names.length);
+    expect(names).toContain('meeting_notes');
+    expect(VIDEO_PROMPTS.every(prompt => prompt.source === 'transcript' || prompt.source === 'summary')).toBe(true);
+  });
+
+  test('findPrompt looks prompts up by name', () => {
+    expect(findPrompt('study_quiz')?.source).toBe('transcript');
+    expect(findPrompt('unknown')).toBeUndefined();
+  });
+
+  test('messages embed the video content before the task', () => {
+    const prompt = findPrompt('action_items')!;
+    const [resource, task] = buildPromptMessages(prompt, { videoId: 'dQw4w9WgXcQ' }, content);
+
+    expect(resource).toEqual({
+      role: 'user',
+      content: { type: 'resource', resource: { uri: content.uri, mimeType: 'text/markdown', text: content.text } }
+    });
+    expect(task.content).toEqual({ type: 'text', text: prompt.task });
+  });
+
+  test('audience and lang are added to the task', () => {
+    const prompt = findPrompt('meeting_notes')!;
+    const [, task] = buildPromptMessages(prompt, { videoId: 'dQw4w9WgXcQ', lang: 'ja', audience: 'new hires' }, content);
+
+    expect(task.content.type === 'text' && task.content.text).toBe(
+      `${prompt.task} Write for new hires. Respond in the language with code "ja".`
+    );
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * MCP prompt templates
+ * Ready-made instructions for common video workflows. Each prompt embeds
+ * the video's transcript or summary as a resource, followed by the task.
+ */
+
+import { RESOURCE_MIME_TYPE, ResourceKind } from './resources.js';
+
+export interface PromptArgs {
+  videoId: string;
+  lang?: string;
+  audience?: string;
+}
+
+export interface VideoPrompt {
+  name: string;
+  description: string;
+  /** What gets embedded: the full transcript or the DeepSRT summary */
+  source: ResourceKind;
+  task: string;
+}
+
+export const VIDEO_PROMPTS: VideoPrompt[] = [
+  {
+    name: 'meeting_notes',
+    description: 'Turn a talk or meeting recording into structured meeting notes',
+    source: 'transcript',
+    task: 'Write meeting notes for this video: a one-paragraph overview, the main topics as headings with the key points under each, decisions made, and open questions. Cite the transcript timestamp for each topic.',
+  },
+  {
+    name: 'study_quiz',
+    description: 'Make a study quiz with answers from a lecture or tutorial',
+    source: 'transcript',
+    task: 'Write a study quiz on this video: 10 questions mixing multiple choice and short answer, ordered as the topics appear. Follow them with an answer key that gives each answer and the timestamp where it is covered.',
+  },
+  {
+    name: 'action_items',
+    description: 'Extract action items, owners and deadlines from a recording',
+    source: 'transcript',
+    task: 'List every action item in this video as a checklist. For each, give the owner and deadline when they are mentioned, and the timestamp where it comes up. If there are none, say so.',
+  },
+  {
+    name: 'video_brief',
+    description: 'Brief someone on a video from its DeepSRT summary, without reading the transcript',
+    source: 'summary',
+    task: 'Brief me on this video in five bullet points or fewer, then say who would find it worth watching in full and why.',
+  },
+];
+
+export const PROMPT_ARGUMENTS = [
+  { name: 'videoId', description: 'YouTube video ID or URL', required: true },
+  { name: 'lang', description: 'Language for the transcript or summary and the response (e.g. en, zh-tw)', required: false },
+  { name: 'audience', description: 'Who the result is for (e.g. "engineering managers", "high school students")', required: false },
+];
+
+export function findPrompt(name: string): VideoPrompt | undefined {
+  return VIDEO_PROMPTS.find(prompt => prompt.name === name);
+}
+
+/** The embedded video content followed by the task */
+export function buildPromptMessages(prompt: VideoPrompt, args: PromptArgs, content: { uri: string; text: string }) {
+  const instructions = [
+    prompt.task,
+    args.audience && `Write for ${args.audience}.`,
+    args.lang && `Respond in the language with code "${args.lang}".`,
+  ].filter(Boolean).join(' ');
+
+  return [
+    {
+      role: 'user' as const,
+      content: {
+        type: 'resource' as const,
+        resource: { uri: content.uri, mimeType: RESOURCE_MIME_TYPE, text: content.text },
+      },
+    },
+    {
+      role: 'user' as const,
+      content: { type: 'text' as const, text: instructions },
+    },
+  ];
+}
@@ -0,0 +1,71 @@
+import { describe, test, expect } from 'bun:test';
+import { parseResourceUri, RecentResources, toResourceUri } from './resources.js';
+
+describe('MCP resources', () => {
+  describe('parseResourceUri', () => {
+    test('reads transcript and summary URIs with their query parameters', () => {
+      expect(parseResourceUri('youtube://dQw4w9WgXcQ/transcript')).toEqual({ videoId: 'dQw4w9WgXcQ', kind: 'transcript' });
+      expect(parseResourceUri('youtube://dQw4w9WgXcQ/transcript?lang=zh-TW')).toEqual({ videoId: 'dQw4w9WgXcQ', kind: 'transcript', lang: 'zh-TW' });
+      expect(parseResourceUri('youtube://dQw4w9WgXcQ/summary?lang=en&mode=bullet')).toEqual({
+        videoId: 'dQw4w9WgXcQ',
+        kind: 'summary',
+        lang: 'en',
+        mode: 'bullet'
+      });
+    });
+
+    test('treats empty parameters as unset', () => {
+      expect(parseResourceUri('youtube://dQw4w9WgXcQ/summary?lang=&mode=')).toEqual({ videoId: 'dQw4w9WgXcQ', kind: 'summary' });
+    });
+
+    test('rejects unknown URIs and summary modes', () => {
+      expect(parseResourceUri('youtube://dQw4w9WgXcQ/comments')).toBeNull();
+      expect(parseResourceUri('youtube://short/transcript')).toBeNull();
+      expect(parseResourceUri('https://youtu.be/dQw4w9WgXcQ')).toBeNull();
+      expect(parseResourceUri('youtube://dQw4w9WgXcQ/summary?mode=poem')).toBeNull();
+    });
+  });
+
+  test('toResourceUri round-trips and leaves out unset parameters', () => {
+    expect(toResourceUri({ videoId: 'dQw4w9WgXcQ', kind: 'transcript' })).toBe('youtube://dQw4w9WgXcQ/transcript');
+    expect(toResourceUri({ videoId: 'dQw4w9WgXcQ', kind: 'transcript', lang: 'en', mode: 'bullet' })).toBe('youtube://dQw4w9WgXcQ/transcript?lang=en');
+
+    const summary = { videoId: 'dQw4w9WgXcQ', kind: 'summary' as const, lang: 'ja', mode: 'narrative' as const };
+    expect(parseResourceUri(toResourceUri(summary))).toEqual(summary);
+  });
+
+  describe('RecentResources', () => {
+    test('lists the newest first and moves refetched videos to the top', () => {
+      const recent = new RecentResources(10);
+
+      expect(recent.add({ videoId: 'aaaaaaaaaaa', kind: 'transcript', lang: 'en' }, 'First')).toBe(true);
+      expect(recent.add({ videoId: 'bbbbbbbbbbb', kind: 'summary', lang: 'ja', mode: 'bullet' }, 'Second')).toBe(true);
+      expect(recent.add({ videoId: 'aaaaaaaaaaa', kind: 'transcript', lang: 'en' }, 'First')).toBe(false);
+
+      expect(recent.list()).toEqual([
+        {
+          uri: 'youtube://aaaaaaaaaaa/transcript?lang=en',
+          name: 'First (transcript, en)',
+          description: 'Transcript of https://youtu.be/aaaaaaaaaaa',
+          mimeType: 'text/markdown'
+        },
+        {
+          uri: 'youtube://bbbbbbbbbbb/summary?lang=ja&mode=bullet',
+          name: 'Second (summary, ja, bullet)',
+          description: 'Summary of https://youtu.be/bbbbbbbbbbb',
+          mimeType: 'text/markdown'
+        }
+      ]);
+    });
+
+    test('drops the oldest entry past the limit', () => {
+      const recent = new RecentResources(2);
+      ['aaaaaaaaaaa', 'bbbbbbbbbbb', 'ccccccccccc'].forEach(videoId => recent.add({ videoId, kind: 'transcript' }, videoId));
+
+      expect(recent.list().map(resource => resource.uri)).toEqual([
+        'youtube://ccccccccccc/transcript',
+        'youtube://bbbbbbbbbbb/transcript'
+      ]);
+    });
+  });
+});
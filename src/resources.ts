@@ -0,0 +1,109 @@
+/**
+ * MCP resources
+ * Transcripts and summaries are addressable as `youtube://` URIs so clients
+ * can attach them to a conversation. Videos fetched during the session are
+ * listed, most recent first.
+ */
+
+import type { SummaryMode } from './types.js';
+
+export type ResourceKind = 'transcript' | 'summary';
+
+export interface VideoResource {
+  videoId: string;
+  kind: ResourceKind;
+  lang?: string;
+  /** Summary mode; only used for summaries */
+  mode?: SummaryMode;
+}
+
+export interface ListedResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export const RESOURCE_MIME_TYPE = 'text/markdown';
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'youtube://{videoId}/transcript{?lang}',
+    name: 'YouTube transcript',
+    description: 'Timestamped transcript of a YouTube video; lang is the preferred caption language (default: en)',
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'youtube://{videoId}/summary{?lang,mode}',
+    name: 'YouTube summary',
+    description: 'DeepSRT summary of a YouTube video; lang is the summary language (default: zh-tw), mode narrative or bullet',
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+];
+
+const RESOURCE_URI = /^youtube:\/\/([A-Za-z0-9_-]{11})\/(transcript|summary)(?:\?(.*))?$/;
+
+/** Parse a `youtube://` resource URI, or return null when it does not match a template */
+export function parseResourceUri(uri: string): VideoResource | null {
+  const match = uri.match(RESOURCE_URI);
+  if (!match) {
+    return null;
+  }
+
+  const [, videoId, kind, query] = match;
+  const params = new URLSearchParams(query ?? '');
+  const lang = params.get('lang') || undefined;
+  const mode = params.get('mode') || undefined;
+
+  if (kind === 'transcript') {
+    return { videoId, kind, ...(lang && { lang }) };
+  }
+  if (mode !== undefined && mode !== 'narrative' && mode !== 'bullet') {
+    return null;
+  }
+  return { videoId, kind: 'summary', ...(lang && { lang }), ...(mode && { mode }) };
+}
+
+export function toResourceUri({ videoId, kind, lang, mode }: VideoResource): string {
+  const params = new URLSearchParams();
+  if (lang) params.set('lang', lang);
+  if (kind === 'summary' && mode) params.set('mode', mode);
+
+  const query = params.toString();
+  return `youtube://${videoId}/${kind}${query ? `?${query}` : ''}`;
+}
+
+/** Most recently fetched resources, newest first, capped at `limit` */
+export class RecentResources {
+  private entries = new Map<string, ListedResource>();
+  private limit: number;
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  /** Record a fetched resource; returns true when it was not listed yet */
+  add(resource: VideoResource, title: string): boolean {
+    const uri = toResourceUri(resource);
+    const isNew = !this.entries.has(uri);
+    const details = [resource.lang, resource.kind === 'summary' ? resource.mode : undefined].filter(Boolean).join(', ');
+
+    this.entries.delete(uri);
+    this.entries.set(uri, {
+      uri,
+      name: `${title} (${resource.kind}${details ? `, ${details}` : ''})`,
+      description: `${resource.kind === 'transcript' ? 'Transcript' : 'Summary'} of https://youtu.be/${resource.videoId}`,
+      mimeType: RESOURCE_MIME_TYPE,
+    });
+
+    const [oldest] = this.entries.keys();
+    if (this.entries.size > this.limit && oldest) {
+      this.entries.delete(oldest);
+    }
+    return isNew;
+  }
+
+  list(): ListedResource[] {
+    return [...this.entries.values()].reverse();
+  }
+}
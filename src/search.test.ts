@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'bun:test';
+import { buildQueryPattern, findMatchingSegments, searchSegments } from './search.js';
+import type { TranscriptSegment } from './types.js';
+
+const segments: TranscriptSegment[] = [
+  { timestamp: '[00:00]', startMs: 0, durationMs: 2000, text: 'Welcome to the talk' },
+  { timestamp: '[00:02]', startMs: 2000, durationMs: 3000, text: 'today we deploy to Kubernetes' },
+  { timestamp: '[00:05]', startMs: 5000, durationMs: 3000, text: 'using a managed' },
+  { timestamp: '[00:08]', startMs: 8000, durationMs: 3000, text: 'kubernetes cluster on version 1.29' },
+  { timestamp: '[01:05]', startMs: 65500, durationMs: 2000, text: 'Thanks for watching' }
+];
+
+describe('Transcript search', () => {
+  describe('findMatchingSegments', () => {
+    test('words match segments containing every word, ignoring case', () => {
+      expect(findMatchingSegments(segments, 'kubernetes')).toEqual([1, 3]);
+      expect(findMatchingSegments(segments, 'Kubernetes cluster')).toEqual([3]);
+      expect(findMatchingSegments(segments, 'docker')).toEqual([]);
+    });
+
+    test('words match whole words only', () => {
+      const speech: TranscriptSegment[] = [
+        { timestamp: '[00:00]', startMs: 0, durationMs: 1000, text: 'a good talk from long ago' },
+        { timestamp: '[00:01]', startMs: 1000, durationMs: 1000, text: "let's go, Go!" },
+        { timestamp: '[00:02]', startMs: 2000, durationMs: 1000, text: 'café or cafés, c++' },
+        { timestamp: '[00:03]', startMs: 3000, durationMs: 1000, text: '今天我們學習部署' }
+      ];
+
+      expect(findMatchingSegments(speech, 'go')).toEqual([1]);
+      expect(findMatchingSegments(speech, 'café')).toEqual([2]);
+      expect(findMatchingSegments(speech, 'caf')).toEqual([]);
+      expect(findMatchingSegments(speech, 'c++')).toEqual([2]);
+      expect(findMatchingSegments(speech, '學習')).toEqual([3]);
+    });
+
+    test('phrases match across segment boundaries and hit the segment they start in', () => {
+      expect(findMatchingSegments(segments, 'a managed kubernetes cluster', 'phrase')).toEqual([2]);
+      expect(findMatchingSegments(segments, 'cluster managed', 'phrase')).toEqual([]);
+    });
+
+    test('phrases treat regex characters literally', () => {
+      expect(findMatchingSegments(segments, 'version 1.29', 'phrase')).toEqual([3]);
+      expect(findMatchingSegments(segments, 'version 1x29', 'phrase')).toEqual([]);
+    });
+
+    test('regex queries are case-insensitive and report each segment once', () => {
+      expect(findMatchingSegments(segments, 'kube\\w+|watching', 'regex')).toEqual([1, 3, 4]);
+      expect(findMatchingSegments(segments, '\\d+', 'regex')).toEqual([3]);
+    });
+  });
+
+  test('buildQueryPattern rejects invalid regular expressions', () => {
+    expect(() => buildQueryPattern('(unclosed', 'regex')).toThrow('Invalid regular expression');
+  });
+
+  test('buildQueryPattern rejects patterns that can backtrack catastrophically', () => {
+    for (const pattern of ['(a+)+$', '(a*)*b', '(?:\\w+\\s?)*x', '((ab)+c){2,}', 'x'.repeat(201)]) {
+      expect(() => buildQueryPattern(pattern, 'regex')).toThrow('Invalid regular expression');
+    }
+    for (const pattern of ['(kube|docker)+', '[(+]+', '\\(a+\\)+', '(ab)?c+', '(a)\\1{2}']) {
+      expect(() => buildQueryPattern(pattern, 'regex')).not.toThrow();
+    }
+  });
+
+  test('regex search refuses oversized transcripts', () => {
+    const long: TranscriptSegment[] = [{ timestamp: '[00:00]', startMs: 0, durationMs: 1000, text: 'a'.repeat(500_000) }];
+    expect(() => findMatchingSegments(long, 'a', 'regex')).toThrow('too long for a regex search');
+    expect(findMatchingSegments(long, 'a'.repeat(10), 'phrase')).toEqual([0]);
+  });
+
+  test('searchSegments adds context and a deep link', () => {
+    const [hit] = searchSegments('dQw4w9WgXcQ', segments, 'watching', { context: 2 });
+
+    expect(hit.timestamp).toBe('[01:05]');
+    expect(hit.startSeconds).toBe(65);
+    expect(hit.url).toBe('https://youtu.be/dQw4w9WgXcQ?t=65');
+    expect(hit.before.map(segment => segment.startMs)).toEqual([5000, 8000]);
+    expect(hit.after).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Transcript search
+ * Phrase and regex queries run over the joined transcript text, so a match
+ * may start in one segment and end in the next; the hit is the segment the
+ * match starts in. Regex queries are bounded in length, may not nest
+ * quantifiers and only run over transcripts up to a size limit, so one
+ * query cannot stall the server for every other client.
+ */
+
+import { config } from './config.js';
+import type { TranscriptMatchMode, TranscriptSearchHit, TranscriptSegment } from './types.js';
+import { videoLink } from './utils.js';
+
+export interface SegmentSearchOptions {
+  match?: TranscriptMatchMode;
+  /** Segments of context on each side of a hit */
+  context?: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Scripts written without spaces, where any substring may be a word */
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+/**
+ * Case-insensitive pattern for one whole word: it may not continue into a
+ * neighbouring letter or digit, so "go" does not match "good" or "ago".
+ * Edges in unspaced scripts such as Chinese are left open.
+ */
+function wordPattern(word: string): RegExp {
+  const before = UNSPACED.test(word[0]) ? '' : '(?<![\\p{L}\\p{N}\\p{M}_])';
+  const after = UNSPACED.test(word[word.length - 1]) ? '' : '(?![\\p{L}\\p{N}\\p{M}_])';
+  return new RegExp(`${before}${escapeRegExp(word)}${after}`, 'iu');
+}
+
+/**
+ * Compile a query into a global, case-insensitive pattern. Throws for an
+ * invalid regex.
+ */
+export function buildQueryPattern(query: string, match: Exclude<TranscriptMatchMode, 'words'>): RegExp {
+  if (match === 'regex') {
+    if (query.length > config.transcriptSearch.maxPatternLength) {
+      throw new Error(`Invalid regular expression: longer than ${config.transcriptSearch.maxPatternLength} characters`);
+    }
+    if (hasNestedQuantifier(query)) {
+      throw new Error('Invalid regular expression: nested quantifiers such as (a+)+ are not supported');
+    }
+    try {
+      return new RegExp(query, 'gi');
+    } catch (error) {
+      throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const words = query.trim().split(/\s+/).map(escapeRegExp);
+  return new RegExp(words.join('\\s+'), 'gi');
+}
+
+/**
+ * Whether a repeated group itself contains a repetition, as in `(a+)+` or
+ * `(?:\w*x)*`; such patterns can backtrack exponentially
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  // For each open group, whether it contains a quantifier
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeats = groups.pop() ?? false;
+      if (repeats && /^(?:[*+]|\{\d)/.test(pattern.slice(i + 1))) {
+        return true;
+      }
+      if (repeats && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if (groups.length > 0 && /^(?:[*+]|\{\d)/.test(pattern.slice(i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+/** Indexes of the segments matching `query`, in transcript order */
+export function findMatchingSegments(
+  segments: TranscriptSegment[],
+  query: string,
+  match: TranscriptMatchMode = 'words'
+): number[] {
+  if (match === 'words') {
+    const words = query.split(/\s+/).filter(Boolean).map(wordPattern);
+    return segments.flatMap((segment, index) =>
+      words.length > 0 && words.every(word => word.test(segment.text)) ? [index] : []
+    );
+  }
+
+  const pattern = buildQueryPattern(query, match);
+  const offsets: number[] = [];
+  let text = '';
+  for (const segment of segments) {
+    offsets.push(text.length);
+    text += `${segment.text} `;
+  }
+  if (match === 'regex' && text.length > config.transcriptSearch.maxRegexTextChars) {
+    throw new Error('Transcript is too long for a regex search; search by words or phrase, or narrow it with start/end');
+  }
+
+  const hits: number[] = [];
+  let index = 0;
+  for (const found of text.matchAll(pattern)) {
+    if (found[0].trim().length === 0) continue;
+
+    while (index + 1 < offsets.length && offsets[index + 1] <= found.index) {
+      index++;
+    }
+    if (hits[hits.length - 1] !== index) {
+      hits.push(index);
+    }
+  }
+
+  return hits;
+}
+
+export function searchSegments(
+  videoId: string,
+  segments: TranscriptSegment[],
+  query: string,
+  options: SegmentSearchOptions = {}
+): TranscriptSearchHit[] {
+  const context = options.context ?? 0;
+
+  return findMatchingSegments(segments, query, options.match).map(index => {
+    const segment = segments[index];
+    const startSeconds = Math.floor(segment.startMs / 1000);
+    return {
+      timestamp: segment.timestamp,
+      startSeconds,
+      url: videoLink(videoId, startSeconds),
+      text: segment.text,
+      before: segments.slice(Math.max(0, index - context), index),
+      after: segments.slice(index + 1, index + 1 + context),
+    };
+  });
+}
@@ -0,0 +1,90 @@
+import { describe, test, expect } from 'bun:test';
+import { isSegmentationMode, resegment } from './segmentation.js';
+import type { TranscriptSegment } from './types.js';
+import { formatTimestamp } from './utils.js';
+
+function cue(startMs: number, durationMs: number, text: string): TranscriptSegment {
+  return { timestamp: formatTimestamp(startMs), startMs, durationMs, text };
+}
+
+const punctuated = [
+  cue(1000, 1500, 'One of the'),
+  cue(2500, 2000, "year's hottest IPOs. Just"),
+  cue(4500, 2000, 'kidding!'),
+  cue(6500, 1500, 'Next we look'),
+  cue(8000, 1500, 'at the numbers.')
+];
+
+describe('Transcript segmentation', () => {
+  test('raw keeps the cues as served', () => {
+    expect(resegment(punctuated, 'raw')).toBe(punctuated);
+    expect(resegment(punctuated)).toBe(punctuated);
+  });
+
+  test('sentence merges cues up to sentence punctuation and keeps the first start time', () => {
+    const sentences = resegment(punctuated, 'sentence');
+
+    expect(sentences.map(segment => segment.text)).toEqual([
+      "One of the year's hottest IPOs.",
+      'Just kidding!',
+      'Next we look at the numbers.'
+    ]);
+    expect(sentences[0]).toMatchObject({ timestamp: '[00:01]', startMs: 1000 });
+    expect(sentences[2]).toMatchObject({ timestamp: '[00:06]', startMs: 6500, durationMs: 3000 });
+  });
+
+  test('a cue spanning two sentences is split at an interpolated time', () => {
+    const [first, second] = resegment(punctuated, 'sentence');
+
+    expect(first.startMs + first.durationMs).toBe(4100);
+    expect(second).toMatchObject({ timestamp: '[00:04]', startMs: 4180, durationMs: 2320 });
+  });
+
+  test('a long pause ends a sentence', () => {
+    const sentences = resegment([cue(0, 1000, 'First part.'), cue(1000, 1000, 'and then'), cue(5000, 1000, 'much later.')], 'sentence');
+
+    expect(sentences.map(segment => segment.text)).toEqual(['First part.', 'and then', 'much later.']);
+  });
+
+  test('sentences never exceed the maximum length', () => {
+    const words = Array.from({ length: 100 }, (_, index) => cue(index * 500, 500, 'word word word word'));
+    const sentences = resegment(words, 'sentence');
+
+    expect(sentences.length).toBeGreaterThan(1);
+    expect(sentences.every(segment => segment.text.length <= 301)).toBe(true);
+  });
+
+  test('restores capitals and full stops in unpunctuated ASR text', () => {
+    const asr = [
+      cue(0, 2000, 'so i think'),
+      cue(2000, 1500, "we should start i'm ready"),
+      cue(6000, 2000, 'welcome everyone')
+    ];
+
+    expect(resegment(asr, 'sentence').map(segment => segment.text)).toEqual([
+      "So I think we should start I'm ready.",
+      'Welcome everyone.'
+    ]);
+  });
+
+  test('paragraph joins sentences until a long pause', () => {
+    const paragraphs = resegment([...punctuated, cue(15000, 2000, 'A new topic.'), cue(17000, 1000, 'More on it.')], 'paragraph');
+
+    expect(paragraphs.map(segment => segment.text)).toEqual([
+      "One of the year's hottest IPOs. Just kidding! Next we look at the numbers.",
+      'A new topic. More on it.'
+    ]);
+    expect(paragraphs[1].timestamp).toBe('[00:15]');
+  });
+
+  test('joins CJK fragments without spaces', () => {
+    const sentences = resegment([cue(0, 1000, '今天我們'), cue(1000, 1000, '來談談。')], 'sentence');
+
+    expect(sentences.map(segment => segment.text)).toEqual(['今天我們來談談。']);
+  });
+
+  test('recognises supported modes', () => {
+    expect(isSegmentationMode('sentence')).toBe(true);
+    expect(isSegmentationMode('words')).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Transcript re-segmentation
+ * Caption cues, ASR ones especially, break mid-sentence. Merging them into
+ * sentences or paragraphs reads better and spends fewer tokens on
+ * timestamps. A merged segment keeps the start time of its first cue.
+ */
+
+import { config } from './config.js';
+import type { TranscriptSegment, TranscriptSegmentation } from './types.js';
+import { formatTimestamp } from './utils.js';
+
+export const SEGMENTATION_MODES: TranscriptSegmentation[] = ['raw', 'sentence', 'paragraph'];
+
+/** Sentence-final punctuation, optionally followed by closing quotes or brackets */
+const SENTENCE_END = /[.!?…。！？]["'”’)\]」』]*$/;
+/** Sentence boundaries inside a cue: after `.!?` and a space, or right after CJK punctuation */
+const SENTENCE_BREAK = /(?<=[.!?…]["'”’)\]]*)\s+(?=\S)|(?<=[。！？]["'”’)\]」』]*)(?=\S)/;
+/** Scripts written without spaces between words */
+const CJK = /[\u3040-\u30ff\u3400-\u9fff]/;
+
+export function isSegmentationMode(value: unknown): value is TranscriptSegmentation {
+  return typeof value === 'string' && (SEGMENTATION_MODES as string[]).includes(value);
+}
+
+/**
+ * Merge caption cues into sentences or paragraphs. A group ends at
+ * sentence punctuation (paragraphs only on a long pause), at a pause
+ * between cues, or before it would exceed the maximum length. Unpunctuated
+ * text (typical of ASR tracks) gets a capital letter and a full stop per
+ * sentence.
+ */
+export function resegment(segments: TranscriptSegment[], mode: TranscriptSegmentation = 'raw'): TranscriptSegment[] {
+  if (mode === 'raw' || segments.length === 0) {
+    return segments;
+  }
+
+  const restore = !segments.some(segment => /[.!?。！？]/.test(segment.text));
+  const sentences = mergeSegments(segments.flatMap(splitSentences), config.segmentation.sentence, true);
+  const restored = restore ? sentences.map(restorePunctuation) : sentences;
+
+  return mode === 'paragraph'
+    ? mergeSegments(restored, config.segmentation.paragraph, false)
+    : restored;
+}
+
+/**
+ * Split a cue that holds the end of one sentence and the start of the next.
+ * Each piece's start time is interpolated from its position in the text.
+ */
+function splitSentences(segment: TranscriptSegment): TranscriptSegment[] {
+  const parts = segment.text.split(SENTENCE_BREAK);
+  if (parts.length === 1) {
+    return [segment];
+  }
+
+  const timeAt = (position: number) => segment.startMs + Math.round(segment.durationMs * position / segment.text.length);
+  let position = 0;
+
+  return parts.map(text => {
+    position = segment.text.indexOf(text, position);
+    const startMs = timeAt(position);
+    position += text.length;
+    return { timestamp: formatTimestamp(startMs), startMs, durationMs: timeAt(position) - startMs, text };
+  });
+}
+
+function mergeSegments(
+  segments: TranscriptSegment[],
+  { maxChars, pauseMs }: { maxChars: number; pauseMs: number },
+  splitOnPunctuation: boolean
+): TranscriptSegment[] {
+  const merged: TranscriptSegment[] = [];
+  let group: TranscriptSegment[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (group.length > 0) {
+      merged.push(joinSegments(group));
+      group = [];
+      length = 0;
+    }
+  };
+
+  for (const segment of segments) {
+    const previous = group[group.length - 1];
+    if (previous) {
+      const pause = segment.startMs - (previous.startMs + previous.durationMs);
+      if (pause >= pauseMs || length + 1 + segment.text.length > maxChars) {
+        flush();
+      }
+    }
+
+    group.push(segment);
+    length += (length > 0 ? 1 : 0) + segment.text.length;
+
+    if (splitOnPunctuation && SENTENCE_END.test(segment.text)) {
+      flush();
+    }
+  }
+  flush();
+
+  return merged;
+}
+
+function joinSegments(group: TranscriptSegment[]): TranscriptSegment {
+  const first = group[0];
+  const last = group[group.length - 1];
+  const text = group.slice(1).reduce(
+    (joined, segment) => CJK.test(joined.slice(-1)) && CJK.test(segment.text[0]) ? joined + segment.text : `${joined} ${segment.text}`,
+    first.text
+  );
+
+  return {
+    timestamp: formatTimestamp(first.startMs),
+    startMs: first.startMs,
+    durationMs: Math.max(last.startMs + last.durationMs, first.startMs + first.durationMs) - first.startMs,
+    text,
+  };
+}
+
+/** Capitalise the sentence and the pronoun "I", and end it with a full stop */
+function restorePunctuation(segment: TranscriptSegment): TranscriptSegment {
+  const text = segment.text
+    .replace(/\bi\b(?=$|\s|')/g, 'I')
+    .replace(/^\p{Ll}/u, letter => letter.toUpperCase());
+
+  return {
+    ...segment,
+    text: /[\p{L}\p{N}]$/u.test(text) && !CJK.test(text.slice(-1)) ? `${text}.` : text,
+  };
+}
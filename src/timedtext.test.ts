@@ -0,0 +1,129 @@
+import { describe, test, expect } from 'bun:test';
+import { decodeEntities, parseTimedText } from './timedtext.js';
+
+// Fixtures trimmed from real `api/timedtext` responses of each flavour
+
+const format3ManualXML = `<?xml version="1.0" encoding="utf-8" ?><timedtext format="3">
+<body>
+<p t="1200" d="2400">Never gonna give you up</p>
+<p t="3600" d="2100">Never gonna<br/>let you down</p>
+<p t="5700" d="1800">Rock &amp; roll, it&#39;s &#x201C;fine&#x201D;</p>
+<p t="7500" d="900"></p>
+<p t="8400" d="1000">[Music]</p>
+<p t="9400" d="1500"><font color="#E5E5E5">Coloured</font> text</p>
+<p t="10900" d="2000">[Speaker] hello there [laughs]</p>
+</body>
+</timedtext>`;
+
+const format3SyllableXML = `<timedtext format="3">
+<body>
+<w t="0" id="1" wp="1" ws="1"/>
+<p t="0" d="2000" w="1"><s ac="0">wh</s><s t="33" ac="0">er</s><s t="67" ac="0">ev</s><s t="100" ac="0">er</s><s t="134" ac="0"> y</s><s t="167" ac="0">ou</s></p>
+<p t="1900" d="10" w="1" a="1">
+</p>
+<p t="2000" d="1500" w="1"><s ac="0">&gt;&gt;</s><s t="33" ac="0"> W</s><s t="66" ac="0">el</s><s t="100" ac="0">co</s><s t="133" ac="0">me</s></p>
+</body>
+</timedtext>`;
+
+const srv2XML = `<?xml version="1.0" encoding="utf-8" ?><timedtext><window id="1" t="0" op="define" rc="15" cc="32" ap="7" ah="50" av="95"/>
+<text t="160" d="3000" w="1">First line</text>
+<text t="3160" d="2500" w="1">Second<br />line</text>
+</timedtext>`;
+
+const format1XML = `<?xml version="1.0" encoding="utf-8" ?><transcript>
+<text start="0.5" dur="2.34">Hello &amp;amp; welcome</text>
+<text start="2.84" dur="3">It&#39;s a &quot;test&quot;</text>
+<text start="5.84">No duration</text>
+</transcript>`;
+
+const legacyTranscriptXML = `<?xml version="1.0" encoding="utf-8" ?><transcript>
+<text start="1.2" dur="2.4">It&amp;#39;s &amp;quot;fine&amp;quot; &amp;lt;3</text>
+<text start="3.6" dur="1">Tom &amp;amp; Jerry</text>
+</transcript>`;
+
+const json3Body = JSON.stringify({
+  wireMagic: 'pb3',
+  events: [
+    { tStartMs: 0, dDurationMs: 120000, id: 1, wpWinPosId: 1, wsWinStyleId: 1 },
+    { tStartMs: 1000, dDurationMs: 2500, wWinId: 1, segs: [{ utf8: 'hello' }, { utf8: ' world', tOffsetMs: 400 }] },
+    { tStartMs: 3400, wWinId: 1, aAppend: 1, segs: [{ utf8: '\n' }] },
+    { tStartMs: 3500, dDurationMs: 2000, wWinId: 1, segs: [{ utf8: 'line one\nline two' }] },
+    { tStartMs: 5500, dDurationMs: 1000, segs: [{ utf8: '♪♪♪' }] }
+  ]
+});
+
+describe('parseTimedText', () => {
+  test('reads format 3 paragraphs without <s> syllables', () => {
+    const result = parseTimedText(format3ManualXML);
+
+    expect(result.map(segment => segment.text)).toEqual([
+      'Never gonna give you up',
+      'Never gonna let you down',
+      'Rock & roll, it\'s “fine”',
+      'Coloured text',
+      '[Speaker] hello there [laughs]'
+    ]);
+    expect(result[0]).toEqual({ timestamp: '[00:01]', startMs: 1200, durationMs: 2400, text: 'Never gonna give you up' });
+  });
+
+  test('reads format 3 syllables and skips empty append paragraphs', () => {
+    const result = parseTimedText(format3SyllableXML);
+
+    expect(result).toEqual([
+      { timestamp: '[00:00]', startMs: 0, durationMs: 2000, text: 'wherever you' },
+      { timestamp: '[00:02]', startMs: 2000, durationMs: 1500, text: '>> Welcome' }
+    ]);
+  });
+
+  test('reads srv2 <text t d> cues in milliseconds', () => {
+    const result = parseTimedText(srv2XML);
+
+    expect(result).toEqual([
+      { timestamp: '[00:00]', startMs: 160, durationMs: 3000, text: 'First line' },
+      { timestamp: '[00:03]', startMs: 3160, durationMs: 2500, text: 'Second line' }
+    ]);
+  });
+
+  test('reads format 1 and legacy <transcript> cues in seconds', () => {
+    const result = parseTimedText(format1XML);
+
+    expect(result).toEqual([
+      { timestamp: '[00:00]', startMs: 500, durationMs: 2340, text: 'Hello & welcome' },
+      { timestamp: '[00:02]', startMs: 2840, durationMs: 3000, text: 'It\'s a "test"' },
+      { timestamp: '[00:05]', startMs: 5840, durationMs: 0, text: 'No duration' }
+    ]);
+  });
+
+  test('decodes legacy <transcript> text that is escaped twice', () => {
+    expect(parseTimedText(legacyTranscriptXML).map(segment => segment.text)).toEqual([
+      'It\'s "fine" <3',
+      'Tom & Jerry'
+    ]);
+  });
+
+  test('reads json3 events and ignores window and newline-only events', () => {
+    const result = parseTimedText(json3Body);
+
+    expect(result).toEqual([
+      { timestamp: '[00:01]', startMs: 1000, durationMs: 2500, text: 'hello world' },
+      { timestamp: '[00:03]', startMs: 3500, durationMs: 2000, text: 'line one line two' }
+    ]);
+  });
+
+  test('returns no segments for empty or malformed input', () => {
+    expect(parseTimedText('')).toEqual([]);
+    expect(parseTimedText('<timedtext format="3"><body></body></timedtext>')).toEqual([]);
+    expect(parseTimedText('{"events":')).toEqual([]);
+  });
+});
+
+describe('decodeEntities', () => {
+  test('decodes named, decimal and hex references', () => {
+    expect(decodeEntities('&lt;b&gt; &quot;a&quot; &apos;b&apos; &#39;c&#39; &#x27;d&#X27; &#8212; &#x1F600;'))
+      .toBe('<b> "a" \'b\' \'c\' \'d\' — \u{1F600}');
+  });
+
+  test('decodes in a single pass and leaves unknown references alone', () => {
+    expect(decodeEntities('&amp;lt; &unknown; & plain')).toBe('&lt; &unknown; & plain');
+  });
+});
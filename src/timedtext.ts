@@ -0,0 +1,139 @@
+/**
+ * YouTube timedtext parser
+ * Handles every caption body YouTube serves for `api/timedtext`:
+ *   - format 3 (srv3): `<timedtext format="3"><body><p t="ms" d="ms">`, with or without `<s>` syllables
+ *   - srv2: `<timedtext><text t="ms" d="ms">`
+ *   - format 1 (srv1) and the legacy transcript: `<transcript><text start="s" dur="s">`,
+ *     whose text is escaped twice (`It&amp;#39;s`)
+ *   - json3: `{"events":[{"tStartMs","dDurationMs","segs":[{"utf8"}]}]}`
+ */
+
+import type { TranscriptSegment } from './types.js';
+import { formatTimestamp } from './utils.js';
+
+interface Json3Event {
+  tStartMs?: number;
+  dDurationMs?: number;
+  segs?: Array<{ utf8?: string }>;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Parse a timedtext body in any supported format into transcript segments.
+ * Empty cues and pure music notation (`[Music]`, `♪♪♪`) are dropped.
+ */
+export function parseTimedText(content: string): TranscriptSegment[] {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{')) {
+    return parseJson3(trimmed);
+  }
+
+  const segments: TranscriptSegment[] = [];
+  const cueRegex = /<(p|text)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+  let match;
+
+  while ((match = cueRegex.exec(trimmed)) !== null) {
+    const timing = readCueTiming(match[2]);
+    if (timing) {
+      pushSegment(segments, timing.startMs, timing.durationMs, xmlCueText(match[3] || '', timing.escapedTwice));
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Decode named, decimal (`&#39;`) and hex (`&#x27;`) character references
+ * in a single pass, so `&amp;lt;` becomes `&lt;` rather than `<`
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1] === 'x' || name[1] === 'X'
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function parseJson3(content: string): TranscriptSegment[] {
+  let events: Json3Event[];
+  try {
+    events = JSON.parse(content).events || [];
+  } catch {
+    return [];
+  }
+
+  const segments: TranscriptSegment[] = [];
+  for (const event of events) {
+    if (!event.segs || event.tStartMs === undefined) continue;
+    const text = event.segs.map(seg => seg.utf8 || '').join('');
+    pushSegment(segments, event.tStartMs, event.dDurationMs ?? 0, normalizeText(text));
+  }
+  return segments;
+}
+
+interface CueTiming {
+  startMs: number;
+  durationMs: number;
+  /** srv1 and legacy transcript text is entity-escaped twice */
+  escapedTwice: boolean;
+}
+
+/**
+ * srv3 and srv2 cues carry `t`/`d` in milliseconds; srv1 and the legacy
+ * transcript carry `start`/`dur` in (fractional) seconds
+ */
+function readCueTiming(attributes: string): CueTiming | null {
+  const t = attributes.match(/\bt="(\d+)"/);
+  if (t) {
+    const d = attributes.match(/\bd="(\d+)"/);
+    return { startMs: parseInt(t[1]), durationMs: d ? parseInt(d[1]) : 0, escapedTwice: false };
+  }
+
+  const start = attributes.match(/\bstart="([\d.]+)"/);
+  if (start) {
+    const dur = attributes.match(/\bdur="([\d.]+)"/);
+    return {
+      startMs: Math.round(parseFloat(start[1]) * 1000),
+      durationMs: dur ? Math.round(parseFloat(dur[1]) * 1000) : 0,
+      escapedTwice: true,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Text of a cue: `<br/>` becomes a space, other markup (`<s>` syllables,
+ * `<font>`, `<i>`) is dropped. Syllables carry their own leading spaces,
+ * so joining them back to back rebuilds the words. Text escaped twice is
+ * decoded twice.
+ */
+function xmlCueText(inner: string, escapedTwice: boolean): string {
+  const text = decodeEntities(inner
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, ''));
+  return normalizeText(escapedTwice ? decodeEntities(text) : text);
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function pushSegment(segments: TranscriptSegment[], startMs: number, durationMs: number, text: string): void {
+  if (!text || /^\[[^\]]*\]$/.test(text) || /^♪+$/.test(text)) {
+    return;
+  }
+  segments.push({ timestamp: formatTimestamp(startMs), startMs, durationMs, text });
+}
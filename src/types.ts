@@ -0,0 +1,454 @@
+/**
+ * Shared types for the DeepSRT client, MCP server and CLI
+ */
+
+import type { SummaryMode } from './config.js';
+
+export type { SummaryMode };
+
+export interface CaptionTrack {
+  baseUrl: string;
+  name: { simpleText: string };
+  vssId: string;
+  languageCode: string;
+  kind?: string;
+  isTranslatable: boolean;
+}
+
+export interface VideoThumbnail {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface InnerTubeResponse {
+  playabilityStatus?: {
+    /** OK, LOGIN_REQUIRED, UNPLAYABLE, ERROR, LIVE_STREAM_OFFLINE, ... */
+    status: string;
+    reason?: string;
+    playableInEmbed?: boolean;
+  };
+  videoDetails?: {
+    videoId: string;
+    title: string;
+    lengthSeconds: string;
+    channelId: string;
+    author: string;
+    shortDescription?: string;
+    keywords?: string[];
+    viewCount?: string;
+    thumbnail?: { thumbnails?: VideoThumbnail[] };
+    isLiveContent?: boolean;
+    isLive?: boolean;
+    isUpcoming?: boolean;
+    isPrivate?: boolean;
+  };
+  microformat?: {
+    playerMicroformatRenderer?: {
+      publishDate?: string;
+      uploadDate?: string;
+      category?: string;
+      isFamilySafe?: boolean;
+    };
+  };
+  captions?: {
+    playerCaptionsTracklistRenderer?: {
+      captionTracks?: CaptionTrack[];
+    };
+  };
+}
+
+export interface TranscriptSegment {
+  /** Display timestamp, e.g. "[01:05]" */
+  timestamp: string;
+  startMs: number;
+  durationMs: number;
+  text: string;
+}
+
+export type TranscriptFormat = 'markdown' | 'srt' | 'vtt' | 'json' | 'txt';
+
+export interface VideoMetadata {
+  videoId: string;
+  title: string;
+  author: string;
+  channelId: string;
+  lengthSeconds: number;
+  /** Human readable duration, e.g. "12:05" */
+  duration: string;
+}
+
+export interface CaptionListResult {
+  video: VideoMetadata;
+  captions: CaptionTrack[];
+}
+
+export interface TranscriptRange {
+  startSeconds: number;
+  endSeconds?: number;
+}
+
+export interface TranscriptPage {
+  /** Index of the page's first segment in the full transcript */
+  offset: number;
+  count: number;
+  totalSegments: number;
+  /** Opaque token for the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+/** Set when YouTube machine-translated the transcript into the requested language */
+export interface CaptionTranslation {
+  sourceLanguageCode: string;
+  targetLanguageCode: string;
+}
+
+export interface Chapter {
+  title: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+/** Where a video's chapters were read from */
+export type ChapterSource = 'innertube' | 'description';
+
+export interface ChaptersResult {
+  video: VideoMetadata;
+  /** Unset when the video has no chapters */
+  source?: ChapterSource;
+  chapters: Chapter[];
+}
+
+export type TranscriptGroupBy = 'chapter';
+
+/** raw: caption cues as served, sentence/paragraph: cues merged by punctuation, pauses and length */
+export type TranscriptSegmentation = 'raw' | 'sentence' | 'paragraph';
+
+export interface TranscriptResult {
+  video: VideoMetadata;
+  /** Every caption track available for the video */
+  captions: CaptionTrack[];
+  /** The caption track the transcript was built from */
+  caption: CaptionTrack;
+  translation?: CaptionTranslation;
+  /** Set when the transcript was sliced to a time range */
+  range?: TranscriptRange;
+  /** Set when the transcript was split into pages */
+  page?: TranscriptPage;
+  /** Set when grouping by chapter was requested; empty if the video has none */
+  chapters?: Chapter[];
+  /** Set when caption cues were merged into sentences or paragraphs */
+  segmentation?: Exclude<TranscriptSegmentation, 'raw'>;
+  segments: TranscriptSegment[];
+}
+
+/** words: every whole word in one segment, phrase: the exact words in order, regex: a JavaScript pattern */
+export type TranscriptMatchMode = 'words' | 'phrase' | 'regex';
+
+export interface TranscriptSearchHit {
+  timestamp: string;
+  startSeconds: number;
+  /** `https://youtu.be/ID?t=SECONDS` link to the hit */
+  url: string;
+  text: string;
+  /** Context segments before and after the hit */
+  before: TranscriptSegment[];
+  after: TranscriptSegment[];
+}
+
+export interface TranscriptSearchResult {
+  video: VideoMetadata;
+  caption: CaptionTrack;
+  translation?: CaptionTranslation;
+  query: string;
+  match: TranscriptMatchMode;
+  /** Hits in the whole transcript, including those beyond `limit` */
+  totalHits: number;
+  hits: TranscriptSearchHit[];
+}
+
+export interface SummaryResult {
+  video: VideoMetadata;
+  caption: CaptionTrack;
+  lang: string;
+  mode: SummaryMode;
+  /** Translated title, or the original title when translation failed */
+  translatedTitle: string;
+  summary: string;
+}
+
+/** Caption track details in a form suitable for JSON output */
+export interface CaptionInfo {
+  languageCode: string;
+  name: string;
+  kind: 'manual' | 'asr';
+  vssId: string;
+  isTranslatable: boolean;
+}
+
+export interface TranscriptPayload {
+  video: VideoMetadata;
+  caption: CaptionInfo;
+  translation?: CaptionTranslation & { machineTranslated: true };
+  range?: TranscriptRange;
+  page?: TranscriptPage;
+  chapters?: Chapter[];
+  segmentation?: Exclude<TranscriptSegmentation, 'raw'>;
+  segments: Array<{ startMs: number; durationMs: number; text: string }>;
+}
+
+export interface TranscriptSearchPayload extends Omit<TranscriptSearchResult, 'caption' | 'translation'> {
+  caption: CaptionInfo;
+  translation?: CaptionTranslation & { machineTranslated: true };
+}
+
+export interface SummaryPayload {
+  video: VideoMetadata;
+  caption: CaptionInfo;
+  lang: string;
+  mode: SummaryMode;
+  title: {
+    original: string;
+    translated: string;
+  };
+  summary: string;
+}
+
+export interface CaptionListPayload {
+  video: VideoMetadata;
+  captions: CaptionInfo[];
+}
+
+export interface PlaylistVideo {
+  /** 1-based position in the playlist */
+  index: number;
+  videoId: string;
+  title: string;
+  author: string;
+  lengthSeconds: number;
+  duration: string;
+}
+
+export type PlaylistInclude = 'transcript' | 'summary';
+
+/** A playlist video, with its transcript or summary when requested */
+export interface PlaylistEntry extends PlaylistVideo {
+  transcript?: TranscriptResult;
+  summary?: SummaryResult;
+  /** Why the transcript or summary could not be fetched */
+  error?: string;
+  /** Stable code of `error`, e.g. NO_CAPTIONS (see errors.ts) */
+  errorCode?: string;
+}
+
+export interface PlaylistResult {
+  playlistId: string;
+  title: string;
+  include?: PlaylistInclude;
+  videos: PlaylistEntry[];
+}
+
+export interface PlaylistPayload {
+  playlistId: string;
+  title: string;
+  include?: PlaylistInclude;
+  videos: Array<PlaylistVideo & { transcript?: TranscriptPayload; summary?: SummaryPayload; error?: string; errorCode?: string }>;
+}
+
+/** One input of a batch call, in input order */
+export interface BatchEntry {
+  /** The video ID or URL as given */
+  input: string;
+  transcript?: TranscriptResult;
+  summary?: SummaryResult;
+  /** Why this video failed; the rest of the batch is unaffected */
+  error?: string;
+  /** Stable code of `error`, e.g. LOGIN_REQUIRED (see errors.ts) */
+  errorCode?: string;
+}
+
+export interface BatchResult {
+  include: PlaylistInclude;
+  items: BatchEntry[];
+}
+
+export interface BatchPayload {
+  include: PlaylistInclude;
+  items: Array<{ input: string; transcript?: TranscriptPayload; summary?: SummaryPayload; error?: string; errorCode?: string }>;
+}
+
+export interface ChannelVideo {
+  videoId: string;
+  title: string;
+  lengthSeconds: number;
+  duration: string;
+  /** Upload time as YouTube shows it, e.g. "3 days ago" */
+  publishedText?: string;
+  /** Approximate upload date (`YYYY-MM-DD`) derived from `publishedText` */
+  publishedAt?: string;
+}
+
+export interface ChannelVideosResult {
+  channelId: string;
+  title: string;
+  /** Most recent uploads first */
+  videos: ChannelVideo[];
+  /** Pass back as `cursor` to get the next, older page */
+  nextCursor?: string;
+}
+
+export type SearchDuration = 'short' | 'medium' | 'long';
+
+export type SearchUploadDate = 'hour' | 'today' | 'week' | 'month' | 'year';
+
+export interface SearchResultVideo {
+  /** 1-based position in the search ranking */
+  rank: number;
+  videoId: string;
+  title: string;
+  channel: string;
+  channelId?: string;
+  lengthSeconds: number;
+  duration: string;
+  publishedText?: string;
+  viewCountText?: string;
+  /** Whether YouTube shows a CC badge; auto-generated captions are not flagged */
+  hasCaptions: boolean;
+}
+
+export interface SearchResult {
+  query: string;
+  filters: {
+    duration?: SearchDuration;
+    uploadDate?: SearchUploadDate;
+  };
+  videos: SearchResultVideo[];
+}
+
+/** Everything the player response tells about a video, captions or not */
+export interface VideoInfoResult {
+  video: VideoMetadata;
+  description: string;
+  keywords: string[];
+  viewCount: number;
+  thumbnails: VideoThumbnail[];
+  publishDate?: string;
+  category?: string;
+  isLive: boolean;
+  isLiveContent: boolean;
+  isUpcoming: boolean;
+  isPrivate: boolean;
+  playability: {
+    status: string;
+    reason?: string;
+  };
+  /** Empty when the video has no captions */
+  captions: CaptionTrack[];
+}
+
+export type VideoInfoPayload = Omit<VideoInfoResult, 'captions'> & { captions: CaptionInfo[] };
+
+export type ThumbnailSize = 'thumbnail' | 'medium' | 'large';
+
+export interface ThumbnailResult {
+  videoId: string;
+  size: ThumbnailSize;
+  /** Image that was actually returned */
+  url: string;
+  mimeType: string;
+  /** Base64-encoded image bytes */
+  data: string;
+  /** True when YouTube had no image at this size and the configured fallback was used */
+  fallback: boolean;
+}
+
+export type ThumbnailPayload = Omit<ThumbnailResult, 'data'>;
+
+export type OutputMode = 'markdown' | 'json';
+
+export interface RequestOptions {
+  /** Bypass cached responses and store fresh ones */
+  refresh?: boolean;
+  /** Aborts every in-flight network request of the call */
+  signal?: AbortSignal;
+}
+
+export interface TranscriptOptions extends RequestOptions {
+  /**
+   * Preferred caption language (default: en). When set and the video has no
+   * track in it, a translatable track is machine-translated by YouTube.
+   */
+  lang?: string;
+  /** Only keep segments from this offset on, in seconds (default: the URL's `t=` parameter) */
+  start?: number;
+  /** Only keep segments before this offset, in seconds */
+  end?: number;
+  /** Also load the video's chapters so the transcript can be grouped by them */
+  groupBy?: TranscriptGroupBy;
+  /** Merge caption cues into sentences or paragraphs (default: raw) */
+  segmentation?: TranscriptSegmentation;
+}
+
+/** Stages of `getSummary`, in order */
+export type SummaryStage = 'fetching_video_info' | 'selecting_captions' | 'summarizing' | 'translating_title';
+
+export interface ProgressUpdate {
+  stage: SummaryStage;
+  /** Stages completed so far */
+  progress: number;
+  total: number;
+  message: string;
+}
+
+export interface SummaryOptions extends RequestOptions {
+  lang?: string;
+  mode?: SummaryMode;
+  /** Called as each stage starts; cached stages are skipped */
+  onProgress?: (update: ProgressUpdate) => void;
+}
+
+export interface PlaylistOptions extends RequestOptions {
+  /** Maximum number of videos to list (default: 100) */
+  limit?: number;
+  /** Also fetch each video's transcript or summary */
+  include?: PlaylistInclude;
+  /** Caption language for transcripts, or summary language */
+  lang?: string;
+  mode?: SummaryMode;
+  /** Videos fetched in parallel when `include` is set (default: 3) */
+  concurrency?: number;
+}
+
+export interface BatchOptions {
+  /** Videos fetched in parallel (default: 3) */
+  concurrency?: number;
+}
+
+export interface ChannelVideosOptions extends RequestOptions {
+  /** `nextCursor` from a previous page */
+  cursor?: string;
+}
+
+export interface TranscriptSearchOptions extends RequestOptions {
+  /** Caption language, as for `getTranscript` */
+  lang?: string;
+  /** How the query is matched (default: words) */
+  match?: TranscriptMatchMode;
+  /** Segments of context on each side of a hit (default: 2) */
+  context?: number;
+  /** Maximum number of hits returned (default: 20) */
+  limit?: number;
+}
+
+export interface ThumbnailOptions extends RequestOptions {
+  /** thumbnail: 320x180, medium: 640x360, large: 1280x720 (default: medium) */
+  size?: ThumbnailSize;
+}
+
+export interface SearchOptions extends RequestOptions {
+  /** Maximum number of results (default: 20) */
+  limit?: number;
+  /** short: under 4 minutes, medium: 4-20 minutes, long: over 20 minutes */
+  duration?: SearchDuration;
+  uploadDate?: SearchUploadDate;
+}
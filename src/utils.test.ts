@@ -0,0 +1,147 @@
+import { describe, test, expect } from 'bun:test';
+import { extractPlaylistId, languageMatch, mapWithConcurrency, parseChannelInput, parseTimeToSeconds, parseVideoInput, selectTranscriptCaption, sliceSegments } from './utils.js';
+import type { CaptionTrack, TranscriptSegment } from './types.js';
+
+const segments: TranscriptSegment[] = [
+  { timestamp: '[00:00]', startMs: 0, durationMs: 4000, text: 'Intro' },
+  { timestamp: '[00:04]', startMs: 4000, durationMs: 3000, text: 'Middle' },
+  { timestamp: '[00:10]', startMs: 10000, durationMs: 2000, text: 'Late' },
+  { timestamp: '[00:20]', startMs: 20000, durationMs: 2000, text: 'End' }
+];
+
+describe('Time range helpers', () => {
+  describe('parseTimeToSeconds', () => {
+    test('accepts plain seconds', () => {
+      expect(parseTimeToSeconds('90')).toBe(90);
+      expect(parseTimeToSeconds(90)).toBe(90);
+      expect(parseTimeToSeconds('12.5')).toBe(12.5);
+    });
+
+    test('accepts MM:SS and HH:MM:SS', () => {
+      expect(parseTimeToSeconds('1:30')).toBe(90);
+      expect(parseTimeToSeconds('42:00')).toBe(2520);
+      expect(parseTimeToSeconds('01:02:03')).toBe(3723);
+    });
+
+    test('accepts YouTube unit notation', () => {
+      expect(parseTimeToSeconds('90s')).toBe(90);
+      expect(parseTimeToSeconds('1m30s')).toBe(90);
+      expect(parseTimeToSeconds('1h2m3s')).toBe(3723);
+    });
+
+    test('rejects invalid input', () => {
+      expect(parseTimeToSeconds('')).toBeNull();
+      expect(parseTimeToSeconds('soon')).toBeNull();
+      expect(parseTimeToSeconds(-5)).toBeNull();
+    });
+  });
+
+  describe('parseVideoInput', () => {
+    test('reads t= and start= parameters', () => {
+      expect(parseVideoInput('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=30s')).toEqual({ videoId: 'dQw4w9WgXcQ', startSeconds: 30 });
+      expect(parseVideoInput('https://youtu.be/dQw4w9WgXcQ?t=125')).toEqual({ videoId: 'dQw4w9WgXcQ', startSeconds: 125 });
+      expect(parseVideoInput('https://www.youtube.com/embed/dQw4w9WgXcQ?start=42')).toEqual({ videoId: 'dQw4w9WgXcQ', startSeconds: 42 });
+    });
+
+    test('omits startSeconds when the URL has no offset', () => {
+      expect(parseVideoInput('dQw4w9WgXcQ')).toEqual({ videoId: 'dQw4w9WgXcQ' });
+      expect(parseVideoInput('https://example.com/watch')).toBeNull();
+    });
+  });
+
+  describe('sliceSegments', () => {
+    test('keeps segments overlapping the window', () => {
+      expect(sliceSegments(segments, 5, 15).map(s => s.text)).toEqual(['Middle', 'Late']);
+    });
+
+    test('supports open-ended ranges', () => {
+      expect(sliceSegments(segments, 10).map(s => s.text)).toEqual(['Late', 'End']);
+      expect(sliceSegments(segments, undefined, 4).map(s => s.text)).toEqual(['Intro']);
+    });
+  });
+});
+
+describe('Playlist and channel helpers', () => {
+  test('extractPlaylistId reads list= URLs and bare playlist IDs', () => {
+    expect(extractPlaylistId('https://www.youtube.com/playlist?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf')).toBe('PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf');
+    expect(extractPlaylistId('https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=UUuAXFkgsw1L7xaCfnd5JJOw')).toBe('UUuAXFkgsw1L7xaCfnd5JJOw');
+    expect(extractPlaylistId('PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf')).toBe('PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf');
+    expect(extractPlaylistId('dQw4w9WgXcQ')).toBeNull();
+  });
+
+  test('parseChannelInput accepts channel IDs, handles and channel URLs', () => {
+    expect(parseChannelInput('UCabcdefghijklmnopqrstuv')).toEqual({ channelId: 'UCabcdefghijklmnopqrstuv' });
+    expect(parseChannelInput('https://www.youtube.com/channel/UCabcdefghijklmnopqrstuv/videos')).toEqual({ channelId: 'UCabcdefghijklmnopqrstuv' });
+    expect(parseChannelInput('@GoogleDevelopers')).toEqual({ url: 'https://www.youtube.com/@GoogleDevelopers' });
+    expect(parseChannelInput('https://youtube.com/c/Veritasium/videos')).toEqual({ url: 'https://www.youtube.com/c/Veritasium' });
+    expect(parseChannelInput('dQw4w9WgXcQ')).toBeNull();
+  });
+
+  test('mapWithConcurrency keeps order and caps calls in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return index * 10;
+    });
+
+    expect(results).toEqual([0, 10, 20, 30, 40]);
+    expect(peak).toBe(2);
+  });
+
+  test('mapWithConcurrency starts no new items once the signal aborts', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    const run = mapWithConcurrency([1, 2, 3, 4], 2, async item => {
+      started.push(item);
+      if (item === 2) controller.abort();
+      return item;
+    }, controller.signal);
+
+    await expect(run).rejects.toThrow();
+    expect(started).toEqual([1, 2]);
+  });
+});
+
+describe('Caption language matching', () => {
+  const track = (languageCode: string, kind?: string): CaptionTrack => ({
+    baseUrl: `https://www.youtube.com/api/timedtext?lang=${languageCode}`,
+    name: { simpleText: languageCode },
+    vssId: `.${languageCode}`,
+    languageCode,
+    isTranslatable: true,
+    ...(kind && { kind })
+  });
+
+  test('ranks exact codes, then the same script, then the same language', () => {
+    expect(languageMatch('en', 'EN')).toBe(3);
+    expect(languageMatch('zh-TW', 'zh-Hant')).toBe(2);
+    expect(languageMatch('zh-Hant-TW', 'zh-hk')).toBe(2);
+    expect(languageMatch('en', 'en-US')).toBe(1);
+    expect(languageMatch('zh-TW', 'zh-Hans')).toBe(0);
+    expect(languageMatch('en', 'ja')).toBe(0);
+  });
+
+  test('uses a regional variant instead of machine-translating', () => {
+    const english = selectTranscriptCaption([track('ja'), track('en-US')], 'en');
+    const chinese = selectTranscriptCaption([track('zh-Hans'), track('zh-Hant')], 'zh-tw');
+
+    expect(english?.caption.languageCode).toBe('en-US');
+    expect(english?.translation).toBeUndefined();
+    expect(chinese?.caption.languageCode).toBe('zh-Hant');
+    expect(chinese?.translation).toBeUndefined();
+  });
+
+  test('prefers the exact code over a variant', () => {
+    const result = selectTranscriptCaption([track('en-GB'), track('en', 'asr'), track('en-US')], 'en');
+    expect(result?.caption.languageCode).toBe('en');
+  });
+
+  test('translates when only another script is available', () => {
+    const result = selectTranscriptCaption([track('zh-Hans')], 'zh-TW');
+    expect(result?.translation).toEqual({ sourceLanguageCode: 'zh-Hans', targetLanguageCode: 'zh-TW' });
+  });
+});
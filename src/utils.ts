@@ -0,0 +1,259 @@
+/**
+ * Pure helpers shared by the DeepSRT client, MCP server and CLI
+ */
+
+import type { CaptionTrack, CaptionTranslation, TranscriptSegment } from './types.js';
+
+export function extractVideoId(input: string): string | null {
+  // Handle direct video ID
+  if (input.length === 11 && !input.includes('/') && !input.includes('=')) {
+    return input;
+  }
+
+  // Handle various YouTube URL formats
+  const patterns = [
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([a-zA-Z0-9_-]{11})/,
+    /youtube\.com\/watch\?.*v=([a-zA-Z0-9_-]{11})/
+  ];
+
+  for (const pattern of patterns) {
+    const match = input.match(pattern);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Playlist ID from a `list=` URL or a bare playlist ID (`PL…`, `UU…`, `OLAK5uy_…`)
+ */
+export function extractPlaylistId(input: string): string | null {
+  const listMatch = input.match(/[?&]list=([a-zA-Z0-9_-]+)/);
+  if (listMatch) {
+    return listMatch[1];
+  }
+
+  return /^(PL|UU|LL|FL|RD|OL|UL)[a-zA-Z0-9_-]{10,}$/.test(input.trim()) ? input.trim() : null;
+}
+
+/**
+ * Channel reference from a channel ID (`UC…`), `@handle` or channel URL.
+ * Handles and `/c/`, `/user/` URLs come back as a URL to resolve through InnerTube.
+ */
+export function parseChannelInput(input: string): { channelId: string } | { url: string } | null {
+  const trimmed = input.trim();
+
+  const idMatch = trimmed.match(/^(UC[a-zA-Z0-9_-]{22})$/) || trimmed.match(/youtube\.com\/channel\/(UC[a-zA-Z0-9_-]{22})/);
+  if (idMatch) {
+    return { channelId: idMatch[1] };
+  }
+
+  if (/^@[\w.-]+$/.test(trimmed)) {
+    return { url: `https://www.youtube.com/${trimmed}` };
+  }
+
+  const urlMatch = trimmed.match(/youtube\.com\/(@[\w.-]+|c\/[\w.-]+|user\/[\w.-]+)/);
+  return urlMatch ? { url: `https://www.youtube.com/${urlMatch[1]}` } : null;
+}
+
+/**
+ * Parse a video ID or URL along with the start offset carried by its
+ * `t=` or `start=` parameter (e.g. `?t=90`, `&t=1m30s`, `?start=90`)
+ */
+export function parseVideoInput(input: string): { videoId: string; startSeconds?: number } | null {
+  const videoId = extractVideoId(input);
+  if (!videoId) {
+    return null;
+  }
+
+  const startMatch = input.match(/[?&#](?:t|start)=([0-9hms:]+)/);
+  const startSeconds = startMatch ? parseTimeToSeconds(startMatch[1]) : null;
+
+  return startSeconds !== null ? { videoId, startSeconds } : { videoId };
+}
+
+/**
+ * Convert seconds, `HH:MM:SS`/`MM:SS` or YouTube's `1h2m3s` notation to seconds
+ */
+export function parseTimeToSeconds(value: string | number): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+
+  if (/^\d+(:\d{1,2}){1,2}(\.\d+)?$/.test(trimmed)) {
+    return trimmed.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+  }
+
+  const unitMatch = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (unitMatch && trimmed !== '') {
+    const [, hours = '0', minutes = '0', seconds = '0'] = unitMatch;
+    return parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds);
+  }
+
+  return null;
+}
+
+/**
+ * Keep the segments that overlap the `[startSeconds, endSeconds)` window
+ */
+export function sliceSegments(
+  segments: TranscriptSegment[],
+  startSeconds?: number,
+  endSeconds?: number
+): TranscriptSegment[] {
+  const startMs = (startSeconds ?? 0) * 1000;
+  const endMs = endSeconds !== undefined ? endSeconds * 1000 : Infinity;
+
+  return segments.filter(segment =>
+    segment.startMs < endMs &&
+    segment.startMs + Math.max(segment.durationMs, 1) > startMs
+  );
+}
+
+export function selectBestCaption(captions: CaptionTrack[], preferredLang: string = 'en'): CaptionTrack | null {
+  if (!captions || captions.length === 0) {
+    return null;
+  }
+
+  // Closest language first (exact, then same script, then same language),
+  // manual captions before auto-generated ones at each level
+  for (const level of [3, 2, 1]) {
+    const matching = captions.filter(c => languageMatch(c.languageCode, preferredLang) === level);
+    const preferred = matching.find(c => !c.kind) || matching.find(c => c.kind === 'asr');
+    if (preferred) return preferred;
+  }
+
+  // Fall back to any manual caption
+  const anyManual = captions.find(c => !c.kind);
+  if (anyManual) return anyManual;
+
+  // Finally, any caption
+  return captions[0];
+}
+
+export function isSameLanguage(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Scripts implied by a region where one language is written in several */
+const REGION_SCRIPTS: Record<string, Record<string, string>> = {
+  zh: { tw: 'hant', hk: 'hant', mo: 'hant', cn: 'hans', sg: 'hans', my: 'hans' },
+};
+
+function languageScript(subtags: string[]): string | undefined {
+  const script = subtags.slice(1).find(subtag => /^[a-z]{4}$/.test(subtag));
+  return script ?? subtags.slice(1).map(subtag => REGION_SCRIPTS[subtags[0]]?.[subtag]).find(Boolean);
+}
+
+/**
+ * How closely two BCP 47 codes match: 3 for the same code, 2 for the same
+ * language in the same script (`zh-TW` and `zh-Hant`), 1 for the same
+ * primary language (`en` and `en-US`), 0 otherwise. Codes written in
+ * different scripts (`zh-TW` and `zh-Hans`) do not match.
+ */
+export function languageMatch(a: string, b: string): number {
+  if (isSameLanguage(a, b)) return 3;
+
+  const subtagsA = a.toLowerCase().split(/[-_]/);
+  const subtagsB = b.toLowerCase().split(/[-_]/);
+  if (subtagsA[0] !== subtagsB[0]) return 0;
+
+  const scriptA = languageScript(subtagsA);
+  const scriptB = languageScript(subtagsB);
+  if (scriptA && scriptB) {
+    return scriptA === scriptB ? 2 : 0;
+  }
+  return 1;
+}
+
+/**
+ * Pick the caption track for a transcript. When the requested language has
+ * no track of its own, not even a regional variant, a translatable track is
+ * machine-translated into it through the timedtext `tlang` parameter.
+ */
+export function selectTranscriptCaption(
+  captions: CaptionTrack[],
+  requestedLang?: string
+): { caption: CaptionTrack; url: string; translation?: CaptionTranslation } | null {
+  const hasRequestedLang = requestedLang !== undefined &&
+    captions.some(c => languageMatch(c.languageCode, requestedLang) > 0);
+
+  if (requestedLang && !hasRequestedLang) {
+    const source = captions.find(c => c.isTranslatable && !c.kind) ||
+      captions.find(c => c.isTranslatable);
+
+    if (source) {
+      return {
+        caption: source,
+        url: buildTranslatedCaptionUrl(source.baseUrl, requestedLang),
+        translation: {
+          sourceLanguageCode: source.languageCode,
+          targetLanguageCode: requestedLang,
+        },
+      };
+    }
+  }
+
+  const caption = selectBestCaption(captions, requestedLang);
+  return caption ? { caption, url: caption.baseUrl } : null;
+}
+
+export function buildTranslatedCaptionUrl(baseUrl: string, targetLang: string): string {
+  const url = new URL(baseUrl);
+  url.searchParams.set('tlang', targetLang);
+  return url.toString();
+}
+
+/** `[MM:SS]`, or `[HH:MM:SS]` from the first hour on */
+export function formatTimestamp(milliseconds: number): string {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0
+    ? `[${pad(hours)}:${pad(minutes)}:${pad(seconds)}]`
+    : `[${pad(minutes)}:${pad(seconds)}]`;
+}
+
+/** Link that opens the video at `seconds` */
+export function videoLink(videoId: string, seconds: number): string {
+  return `https://youtu.be/${videoId}?t=${Math.floor(seconds)}`;
+}
+
+export function formatDuration(lengthSeconds: number): string {
+  return `${Math.floor(lengthSeconds / 60)}:${(lengthSeconds % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Map over `items` with at most `limit` calls in flight, keeping input order.
+ * Once `signal` aborts no new items are started and the call rejects.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  signal?.throwIfAborted();
+  return results;
+}